@@ -1,4 +1,12 @@
 module.exports = {
   root: true,
-  extends: ['@nextgis/eslint-config']
+  extends: ['@nextgis/eslint-config'],
+  overrides: [
+    {
+      files: ['**/tests/unit/**/*.spec.{j,t}s?(x)'],
+      env: {
+        jest: true
+      }
+    }
+  ]
 };
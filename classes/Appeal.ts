@@ -0,0 +1,18 @@
+import { User } from './User';
+import { AuditEvent } from './AuditEvent';
+import { AppealStatus } from '../src/interfaces';
+
+export class Appeal {
+  id!: number;
+  user?: User;
+  userId!: number;
+  event?: AuditEvent;
+  eventId!: number;
+  text!: string;
+  status!: AppealStatus;
+  moderator?: User;
+  moderatorId?: number | null;
+  response?: string;
+  createdAt!: Date;
+  decidedAt?: Date | null;
+}
@@ -0,0 +1,14 @@
+import { User } from './User';
+import { AuditAction, AuditTargetType } from '../src/interfaces';
+
+export class AuditEvent {
+  id!: number;
+  actor?: User;
+  actorId?: number | null;
+  action!: AuditAction;
+  targetType!: AuditTargetType;
+  targetId!: string;
+  details?: Record<string, unknown> | null;
+  reversedById?: number | null;
+  createdAt!: Date;
+}
@@ -0,0 +1,15 @@
+import { User } from './User';
+import { CollectionItem } from './CollectionItem';
+
+export class Collection {
+  id!: number;
+  user?: User;
+  userId!: number;
+  title!: string;
+  description?: string | null;
+  isPublic!: boolean;
+  postcard?: string | null;
+  items?: CollectionItem[];
+  createdAt!: Date;
+  updatedAt!: Date;
+}
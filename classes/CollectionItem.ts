@@ -0,0 +1,12 @@
+import { Collection } from './Collection';
+import { Story } from './Story';
+
+export class CollectionItem {
+  id!: number;
+  collection?: Collection;
+  collectionId!: number;
+  story?: Story;
+  storyId!: string;
+  position!: number;
+  createdAt!: Date;
+}
@@ -0,0 +1,18 @@
+import { User } from './User';
+import { Story } from './Story';
+
+export class Comment {
+  id!: number;
+  story?: Story;
+  storyId!: string;
+  user?: User;
+  userId!: number;
+  parent?: Comment;
+  parentId?: number | null;
+  text!: string;
+  isDeleted!: boolean;
+  isRemoved!: boolean;
+  violationsCount!: number;
+  createdAt!: Date;
+  editedAt?: Date | null;
+}
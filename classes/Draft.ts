@@ -0,0 +1,14 @@
+import { User } from './User';
+import { RepliesState } from '../src/interfaces';
+
+export class Draft {
+  id!: string;
+  user?: User;
+  userId?: number;
+  name!: string;
+  content!: string;
+  replies?: RepliesState | null;
+  createdAt!: Date;
+  updatedAt!: Date;
+  deletedAt?: Date | null;
+}
@@ -0,0 +1,10 @@
+import { User } from './User';
+
+export class Follow {
+  id!: number;
+  follower?: User;
+  followerId!: number;
+  author?: User;
+  authorId!: number;
+  createdAt!: Date;
+}
@@ -0,0 +1,20 @@
+import { User } from './User';
+import { MailKind, MailStatus } from '../src/interfaces';
+
+export class MailJob {
+  id!: number;
+  user?: User;
+  userId?: number | null;
+  kind!: MailKind;
+  to!: string;
+  subject!: string;
+  text!: string;
+  html!: string;
+  headers?: Record<string, string> | null;
+  status!: MailStatus;
+  attempts!: number;
+  nextAttemptAt!: Date;
+  lastError?: string | null;
+  createdAt!: Date;
+  sentAt?: Date | null;
+}
@@ -0,0 +1,10 @@
+import { User } from './User';
+
+export class MailPreferences {
+  userId!: number;
+  user?: User;
+  digest!: boolean;
+  likes!: boolean;
+  moderation!: boolean;
+  unsubscribeToken!: string;
+}
@@ -0,0 +1,14 @@
+import { User } from './User';
+import { ModerationAction } from '../src/interfaces';
+
+export class ModerationDecision {
+  id!: number;
+  storyId!: string;
+  moderator?: User;
+  moderatorId?: number | null;
+  action!: ModerationAction;
+  comment?: string;
+  violationsCount!: number;
+  score?: number | null;
+  createdAt!: Date;
+}
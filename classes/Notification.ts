@@ -0,0 +1,16 @@
+import { User } from './User';
+import { NotificationType } from '../src/interfaces';
+
+export class Notification {
+  id!: number;
+  user?: User;
+  userId!: number;
+  type!: NotificationType;
+  actor?: User;
+  actorId?: number | null;
+  storyId?: string | null;
+  commentId?: number | null;
+  details?: Record<string, unknown> | null;
+  isRead!: boolean;
+  createdAt!: Date;
+}
@@ -0,0 +1,11 @@
+import { User } from './User';
+
+export class NotificationPreferences {
+  userId!: number;
+  user?: User;
+  like!: boolean;
+  moderation!: boolean;
+  fork!: boolean;
+  follow!: boolean;
+  comment!: boolean;
+}
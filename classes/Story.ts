@@ -1,11 +1,19 @@
 import { User } from './User';
 import { Like } from './Like';
+import { Tag } from './Tag';
+import {
+  GenerationParams,
+  ModerationStatus,
+  Visibility
+} from '../src/interfaces';
 
 export class Story {
   id!: string;
   user?: User;
   likes!: Like[];
+  tags?: Tag[];
   userId?: number | null;
+  parentId?: string | null;
   likesCount!: number;
   editId!: string;
   content!: string;
@@ -13,7 +21,16 @@ export class Story {
   postcard?: string;
   viewsCount!: number;
   isPublic!: boolean;
+  visibility?: Visibility | null;
   isDeleted!: boolean;
+  deletedAt?: Date | null;
+  isBanned?: boolean;
+  isHidden?: boolean;
+  moderationStatus?: ModerationStatus | null;
+  violationsCount?: number;
+  commentsCount?: number;
+  verified!: boolean;
+  generationSettings?: GenerationParams | null;
   createdAt!: Date;
   updatedAt!: Date;
 }
@@ -0,0 +1,12 @@
+import { User } from './User';
+import { Story } from './Story';
+
+export class StoryRevision {
+  id!: number;
+  story?: Story;
+  storyId!: string;
+  user?: User;
+  userId?: number | null;
+  content!: string;
+  createdAt!: Date;
+}
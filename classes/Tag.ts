@@ -0,0 +1,8 @@
+import { Story } from './Story';
+
+export class Tag {
+  id!: number;
+  name!: string;
+  stories!: Story[];
+  createdAt!: Date;
+}
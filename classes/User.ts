@@ -1,5 +1,6 @@
 import { Story } from './Story';
 import { Like } from './Like';
+import { GenerationSettings, Role } from '../src/interfaces';
 
 export class User {
   id!: number;
@@ -7,12 +8,17 @@ export class User {
   stories!: Story[];
   likes!: Like[];
   username!: string;
+  displayName?: string | null;
+  bio?: string | null;
   password!: string;
   email?: string;
   isSuperuser!: boolean;
+  role?: Role | null;
   createdAt!: Date;
   updatedAt!: Date;
   provider!: string;
   photoUrl?: string;
   isBanned!: boolean;
+  generationSettings?: GenerationSettings | null;
+  feedSeenAt?: Date | null;
 }
@@ -1,5 +1,7 @@
 import { User } from './User';
 import { Story } from './Story';
+import { Comment } from './Comment';
+import { ViolationReason, ViolationStatus } from '../src/interfaces';
 
 export class Violation {
   id!: string;
@@ -11,5 +13,17 @@ export class Violation {
 
   storyId?: string | null;
 
+  reportedComment?: Comment;
+
+  commentId?: number | null;
+
+  reason?: ViolationReason | null;
+
   comment?: string;
+
+  status!: ViolationStatus;
+
+  decisionId?: number | null;
+
+  createdAt!: Date;
 }
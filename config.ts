@@ -1,5 +1,4 @@
 export interface Config {
-  endpoint: string;
   primaryColor: string;
   site: string;
 }
@@ -13,8 +12,6 @@ try {
 }
 
 const defaultConfig: Partial<Config> = {
-  // endpoint: 'https://models.dobro.ai',
-  endpoint: 'https://pelevin.gpt.dobro.ai',
   primaryColor: '#5371FF',
   site: 'https://porfirevich.ru'
 };
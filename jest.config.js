@@ -0,0 +1,5 @@
+module.exports = {
+  preset: '@vue/cli-plugin-unit-jest/presets/typescript',
+  // the unit tests cover the server code only
+  testEnvironment: 'node'
+};
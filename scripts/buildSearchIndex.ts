@@ -0,0 +1,29 @@
+import { createConnection } from 'typeorm';
+import chalk from 'chalk';
+import { Story } from '../srv/entity/Story';
+import { initSearch, indexStory } from '../srv/search';
+const ormconfig = require('../ormconfig.json');
+
+const buildSearchIndex = async () => {
+  const connection = await createConnection(ormconfig);
+  try {
+    await initSearch(connection.manager);
+    const stories = await connection
+      .getRepository(Story)
+      .find({ select: ['id', 'content'] });
+    const length = stories.length;
+    let updatedCount = 0;
+    for (const story of stories) {
+      await indexStory(connection.manager, story);
+      updatedCount += 1;
+      const progress = ((100 * updatedCount) / length).toFixed(2) + '%';
+      process.stdout.write(progress);
+      process.stdout.cursorTo(0);
+    }
+    console.log(chalk.green(`${length} stories indexed`));
+  } catch (er) {
+    console.log(er);
+  }
+};
+
+buildSearchIndex();
@@ -0,0 +1,16 @@
+import { createConnection } from 'typeorm';
+import chalk from 'chalk';
+import { purgeTrash } from '../srv/trash/purge';
+const ormconfig = require('../ormconfig.json');
+
+const purge = async () => {
+  const connection = await createConnection(ormconfig);
+  try {
+    const count = await purgeTrash(connection.manager);
+    console.log(chalk.green(`${count} stories removed from the trash`));
+  } catch (er) {
+    console.log(er);
+  }
+};
+
+purge();
@@ -0,0 +1,16 @@
+import { createConnection } from 'typeorm';
+import chalk from 'chalk';
+import { recordLegacyBans } from '../srv/moderation/legacyBans';
+const ormconfig = require('../ormconfig.json');
+
+const record = async () => {
+  const connection = await createConnection(ormconfig);
+  try {
+    const count = await recordLegacyBans(connection.manager);
+    console.log(chalk.green(`${count} legacy bans recorded`));
+  } catch (er) {
+    console.log(er);
+  }
+};
+
+record();
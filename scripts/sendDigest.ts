@@ -0,0 +1,16 @@
+import { createConnection } from 'typeorm';
+import chalk from 'chalk';
+import { sendDigest } from '../srv/mailer/digest';
+const ormconfig = require('../ormconfig.json');
+
+const digest = async () => {
+  const connection = await createConnection(ormconfig);
+  try {
+    const count = await sendDigest(connection.manager);
+    console.log(chalk.green(`${count} digest messages queued`));
+  } catch (er) {
+    console.log(er);
+  }
+};
+
+digest();
@@ -0,0 +1,16 @@
+import { createConnection } from 'typeorm';
+import chalk from 'chalk';
+import { processMailQueue } from '../srv/mailer/queue';
+const ormconfig = require('../ormconfig.json');
+
+const send = async () => {
+  const connection = await createConnection(ormconfig);
+  try {
+    const count = await processMailQueue(connection.manager);
+    console.log(chalk.green(`${count} messages sent`));
+  } catch (er) {
+    console.log(er);
+  }
+};
+
+send();
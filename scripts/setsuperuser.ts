@@ -1,6 +1,8 @@
 import { createConnection } from 'typeorm';
 import chalk from 'chalk';
 import { User } from '../srv/entity/User';
+import { recordAudit } from '../srv/utils/recordAudit';
+import { getRole } from '../src/utils/permissions';
 import prompts from 'prompts';
 const ormconfig = require('../ormconfig.json');
 
@@ -23,8 +25,17 @@ const setSuperuser = async () => {
     const userRepository = connection.getRepository(User);
     try {
       const user = await userRepository.findOneOrFail({ where: { email } });
+      const oldRole = getRole(user);
       user.isSuperuser = true;
+      user.role = 'admin';
       await userRepository.save(user);
+      await recordAudit({
+        actorId: null,
+        action: 'user:role',
+        targetType: 'user',
+        targetId: user.id,
+        details: { from: oldRole, to: 'admin', script: 'setsuperuser' }
+      });
       console.log(chalk.green(`User ${email} in now superuser`));
     } catch (error) {
       console.log(chalk.red(`Can't find user with email ${email}`));
@@ -5,8 +5,20 @@ import { Component, Vue } from 'vue-property-decorator';
 import UserService from './services/UserService';
 import { appModule } from './store/app';
 import config from '../config';
+import { can } from './utils/permissions';
 
-@Component
+@Component({
+  components: {
+    BanNotice: () =>
+      import(
+        /* webpackChunkName: "ban-notice" */ './components/BanNotice/BanNotice.vue'
+      ),
+    NotificationBell: () =>
+      import(
+        /* webpackChunkName: "notification-bell" */ './components/NotificationBell/NotificationBell.vue'
+      )
+  }
+})
 export default class App extends Vue {
   isLoading = true;
   rememberMe = true;
@@ -18,6 +30,20 @@ export default class App extends Vue {
     return appModule.user;
   }
 
+  get canModerate() {
+    return can(this.user, 'story:moderate');
+  }
+
+  get profilePath() {
+    return this.user
+      ? { name: 'profile', params: { username: this.user.username } }
+      : '';
+  }
+
+  get canAudit() {
+    return can(this.user, 'audit:manage');
+  }
+
   get color() {
     return config.primaryColor;
   }
@@ -37,6 +63,7 @@ export default class App extends Vue {
         await appModule.setToken(token);
         const user = await UserService.getUser(token);
         await appModule.setUser(user);
+        appModule.claimStories();
       } catch (er) {
         this.logout();
       }
@@ -0,0 +1,70 @@
+import { Vue, Component } from 'vue-property-decorator';
+import { ToastProgrammatic as Toast } from 'buefy';
+import { Appeal } from '../../../classes/Appeal';
+import AppealService from '../../services/AppealService';
+import { AUDIT_ACTION_LABELS } from '../../utils/audit';
+import { getBanReason } from '../../utils/moderation';
+
+@Component
+export default class extends Vue {
+  appeals: Appeal[] = [];
+  isLoading = false;
+  deciding = 0;
+  /** Answers to the users by appeal id */
+  responses: Record<number, string> = {};
+
+  mounted() {
+    this.load();
+  }
+
+  banTitle(appeal: Appeal) {
+    const event = appeal.event;
+    return event ? AUDIT_ACTION_LABELS[event.action] : '';
+  }
+
+  storyLink(appeal: Appeal) {
+    const event = appeal.event;
+    return event && event.targetType === 'story' ? '/' + event.targetId : '';
+  }
+
+  reason(appeal: Appeal) {
+    return appeal.event ? getBanReason(appeal.event) : '';
+  }
+
+  date(value: Date | string) {
+    return new Date(value).toLocaleString('ru');
+  }
+
+  async load() {
+    this.isLoading = true;
+    try {
+      const appeals = await AppealService.all();
+      appeals.forEach(x => this.$set(this.responses, x.id, ''));
+      this.appeals = appeals;
+    } catch (er) {
+      Toast.open({
+        message: 'Не удалось загрузить апелляции.',
+        type: 'is-danger',
+        position: 'is-bottom'
+      });
+    } finally {
+      this.isLoading = false;
+    }
+  }
+
+  async decide(appeal: Appeal, status: 'approved' | 'rejected') {
+    this.deciding = appeal.id;
+    try {
+      await AppealService.decide(appeal.id, status, this.responses[appeal.id]);
+      this.appeals = this.appeals.filter(x => x !== appeal);
+    } catch (er) {
+      Toast.open({
+        message: 'Не удалось сохранить решение.',
+        type: 'is-danger',
+        position: 'is-bottom'
+      });
+    } finally {
+      this.deciding = 0;
+    }
+  }
+}
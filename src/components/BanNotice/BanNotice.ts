@@ -0,0 +1,87 @@
+import { Vue, Component, Watch } from 'vue-property-decorator';
+import { ToastProgrammatic as Toast } from 'buefy';
+import { appModule } from '../../store/app';
+import { Ban } from '../../interfaces';
+import AppealService from '../../services/AppealService';
+import { getBanReason, MAX_APPEAL_LENGTH } from '../../utils/moderation';
+
+const APPEAL_STATUSES = {
+  pending: 'Апелляция на рассмотрении.',
+  approved: 'Апелляция одобрена.',
+  rejected: 'Апелляция отклонена.'
+};
+
+@Component
+export default class extends Vue {
+  isBanned = false;
+  bans: Ban[] = [];
+  /** Appeal texts by the ban event id */
+  texts: Record<number, string> = {};
+  sending = 0;
+
+  get user() {
+    return appModule.user;
+  }
+
+  get maxLength() {
+    return MAX_APPEAL_LENGTH;
+  }
+
+  @Watch('user')
+  onUserChange() {
+    this.load();
+  }
+
+  mounted() {
+    this.load();
+  }
+
+  title(ban: Ban) {
+    return ban.event.targetType === 'user'
+      ? 'Ваша учётная запись заблокирована'
+      : `История ${ban.event.targetId} заблокирована`;
+  }
+
+  reason(ban: Ban) {
+    return getBanReason(ban.event) || 'Причина не указана.';
+  }
+
+  appealStatus(ban: Ban) {
+    return ban.appeal ? APPEAL_STATUSES[ban.appeal.status] : '';
+  }
+
+  async load() {
+    this.isBanned = false;
+    this.bans = [];
+    if (!this.user) {
+      return;
+    }
+    try {
+      const resp = await AppealService.bans();
+      resp.bans.forEach(x => this.$set(this.texts, x.event.id, ''));
+      this.isBanned = resp.isBanned;
+      this.bans = resp.bans;
+    } catch (er) {
+      //
+    }
+  }
+
+  async appeal(ban: Ban) {
+    const text = (this.texts[ban.event.id] || '').trim();
+    if (!text) {
+      return;
+    }
+    this.sending = ban.event.id;
+    try {
+      ban.appeal = await AppealService.create(ban.event.id, text);
+    } catch (er) {
+      Toast.open({
+        message: 'Не удалось отправить апелляцию.',
+        type: 'is-danger',
+        position: 'is-bottom'
+      });
+    } finally {
+      this.sending = 0;
+    }
+  }
+}
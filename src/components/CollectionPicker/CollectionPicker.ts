@@ -0,0 +1,85 @@
+import { Vue, Component, Prop } from 'vue-property-decorator';
+import { ToastProgrammatic as Toast } from 'buefy';
+import { Story } from '../../../classes/Story';
+import { CollectionListItem } from '../../interfaces';
+import CollectionService from '../../services/CollectionService';
+import { MAX_COLLECTION_TITLE_LENGTH } from '../../utils/collections';
+
+/** Add the story to the collections of the logged in user */
+@Component
+export default class extends Vue {
+  @Prop({ type: Object, required: true }) readonly story!: Story;
+
+  collections: CollectionListItem[] = [];
+  isLoading = false;
+  /** Id of the collection being changed */
+  saving = 0;
+  title = '';
+  isCreating = false;
+
+  get maxTitleLength() {
+    return MAX_COLLECTION_TITLE_LENGTH;
+  }
+
+  mounted() {
+    this.load();
+  }
+
+  async load() {
+    this.isLoading = true;
+    try {
+      this.collections = await CollectionService.all({
+        storyId: this.story.id
+      });
+    } catch (er) {
+      this.error('Не удалось загрузить коллекции.');
+    } finally {
+      this.isLoading = false;
+    }
+  }
+
+  async toggle(collection: CollectionListItem) {
+    this.saving = collection.id;
+    try {
+      const resp = collection.hasStory
+        ? await CollectionService.removeStory(collection.id, this.story.id)
+        : await CollectionService.addStory(collection.id, this.story.id);
+      collection.hasStory = !collection.hasStory;
+      collection.storiesCount = resp.storiesCount;
+    } catch (er) {
+      this.error('Не удалось изменить коллекцию.');
+    } finally {
+      this.saving = 0;
+    }
+  }
+
+  /** New private collection with the story */
+  async create() {
+    const title = this.title.trim();
+    if (!title) {
+      return;
+    }
+    this.isCreating = true;
+    try {
+      const collection = await CollectionService.create({ title });
+      const resp = await CollectionService.addStory(
+        collection.id,
+        this.story.id
+      );
+      this.collections.unshift({
+        ...collection,
+        storiesCount: resp.storiesCount,
+        hasStory: true
+      });
+      this.title = '';
+    } catch (er) {
+      this.error('Не удалось создать коллекцию.');
+    } finally {
+      this.isCreating = false;
+    }
+  }
+
+  error(message: string) {
+    Toast.open({ message, type: 'is-danger', position: 'is-bottom' });
+  }
+}
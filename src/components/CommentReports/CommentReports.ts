@@ -0,0 +1,72 @@
+import { Vue, Component } from 'vue-property-decorator';
+import { ToastProgrammatic as Toast } from 'buefy';
+import {
+  CommentModerationAction,
+  CommentQueueItem,
+  ViolationReason
+} from '../../interfaces';
+import ModerationService from '../../services/ModerationService';
+import { VIOLATION_REASON_LABELS } from '../../utils/moderation';
+
+const LIMIT = 20;
+
+@Component
+export default class extends Vue {
+  items: CommentQueueItem[] = [];
+  total = 0;
+  isLoading = false;
+  deciding = 0;
+
+  get hasMore() {
+    return this.items.length < this.total;
+  }
+
+  mounted() {
+    this.load();
+  }
+
+  reasonLabel(reason: ViolationReason | null | undefined) {
+    return reason ? VIOLATION_REASON_LABELS[reason] : 'Без причины';
+  }
+
+  date(value: Date | string) {
+    return new Date(value).toLocaleString('ru');
+  }
+
+  async load(more = false) {
+    this.isLoading = true;
+    try {
+      const resp = await ModerationService.comments({
+        limit: LIMIT,
+        offset: more ? this.items.length : 0
+      });
+      this.items = more ? [...this.items, ...resp.data] : resp.data;
+      this.total = resp.total;
+    } catch (er) {
+      Toast.open({
+        message: 'Не удалось загрузить жалобы на комментарии.',
+        type: 'is-danger',
+        position: 'is-bottom'
+      });
+    } finally {
+      this.isLoading = false;
+    }
+  }
+
+  async decide(item: CommentQueueItem, action: CommentModerationAction) {
+    this.deciding = item.comment.id;
+    try {
+      await ModerationService.decideComment(item.comment.id, action);
+      this.items = this.items.filter(x => x !== item);
+      this.total -= 1;
+    } catch (er) {
+      Toast.open({
+        message: 'Не удалось сохранить решение.',
+        type: 'is-danger',
+        position: 'is-bottom'
+      });
+    } finally {
+      this.deciding = 0;
+    }
+  }
+}
@@ -0,0 +1,186 @@
+import { Vue, Component, Prop, Watch } from 'vue-property-decorator';
+import { ToastProgrammatic as Toast } from 'buefy';
+import { Comment } from '../../../classes/Comment';
+import CommentService from '../../services/CommentService';
+import { appModule } from '../../store/app';
+import {
+  buildCommentTree,
+  CommentNode,
+  MAX_COMMENT_LENGTH
+} from '../../utils/comments';
+import { can } from '../../utils/permissions';
+
+/** Deeper answers are shown without the extra indent */
+const MAX_DEPTH = 5;
+
+interface CommentLine {
+  comment: Comment;
+  depth: number;
+}
+
+@Component({
+  components: {
+    ReportForm: () =>
+      import(
+        /* webpackChunkName: "report-form" */ '../ReportForm/ReportForm.vue'
+      )
+  }
+})
+export default class extends Vue {
+  @Prop({ type: String, required: true }) readonly storyId!: string;
+
+  comments: Comment[] = [];
+  isLoading = false;
+  isSending = false;
+  text = '';
+  /** The comment being answered */
+  replyTo = 0;
+  replyText = '';
+  /** The comment being edited */
+  editing = 0;
+  editText = '';
+  reported: Comment | false = false;
+
+  get user() {
+    return appModule.user;
+  }
+
+  get canComment() {
+    return (
+      !!this.user && !this.user.isBanned && can(this.user, 'comment:create')
+    );
+  }
+
+  get canModerate() {
+    return can(this.user, 'story:moderate');
+  }
+
+  get maxLength() {
+    return MAX_COMMENT_LENGTH;
+  }
+
+  /** The thread as a flat list with indents */
+  get lines() {
+    const lines: CommentLine[] = [];
+    const walk = (nodes: CommentNode[], depth: number) => {
+      nodes.forEach(x => {
+        lines.push({ comment: x.comment, depth: Math.min(depth, MAX_DEPTH) });
+        walk(x.answers, depth + 1);
+      });
+    };
+    walk(buildCommentTree(this.comments), 0);
+    return lines;
+  }
+
+  get isReportModalActive() {
+    return !!this.reported;
+  }
+
+  set isReportModalActive(value: boolean) {
+    if (!value) {
+      this.reported = false;
+    }
+  }
+
+  @Watch('storyId')
+  onStoryChange() {
+    this.load();
+  }
+
+  mounted() {
+    this.load();
+  }
+
+  isOwner(comment: Comment) {
+    return !!this.user && this.user.id === comment.userId;
+  }
+
+  isHidden(comment: Comment) {
+    return comment.isDeleted || comment.isRemoved;
+  }
+
+  author(comment: Comment) {
+    const user = comment.user;
+    return user ? user.displayName || user.username : '';
+  }
+
+  date(value: Date | string) {
+    return new Date(value).toLocaleString('ru');
+  }
+
+  async load() {
+    this.isLoading = true;
+    try {
+      this.comments = await CommentService.all(this.storyId);
+    } catch (er) {
+      this.comments = [];
+    } finally {
+      this.isLoading = false;
+    }
+  }
+
+  reply(comment: Comment) {
+    this.replyTo = this.replyTo === comment.id ? 0 : comment.id;
+    this.replyText = '';
+  }
+
+  startEdit(comment: Comment) {
+    this.editing = comment.id;
+    this.editText = comment.text;
+  }
+
+  async create(parentId?: number) {
+    const text = (parentId ? this.replyText : this.text).trim();
+    if (!text) {
+      return;
+    }
+    this.isSending = true;
+    try {
+      const comment = await CommentService.create(this.storyId, text, parentId);
+      this.comments.push({ ...comment, user: this.user || undefined });
+      if (parentId) {
+        this.replyTo = 0;
+        this.replyText = '';
+      } else {
+        this.text = '';
+      }
+    } catch (er) {
+      this.error('Не удалось отправить комментарий.');
+    } finally {
+      this.isSending = false;
+    }
+  }
+
+  async edit(comment: Comment) {
+    const text = this.editText.trim();
+    if (!text) {
+      return;
+    }
+    this.isSending = true;
+    try {
+      const saved = await CommentService.edit(comment.id, text);
+      comment.text = saved.text;
+      comment.editedAt = saved.editedAt;
+      this.editing = 0;
+    } catch (er) {
+      this.error('Не удалось сохранить комментарий.');
+    } finally {
+      this.isSending = false;
+    }
+  }
+
+  async remove(comment: Comment) {
+    try {
+      const removed = await CommentService.remove(comment.id);
+      comment.text = '';
+      comment.isDeleted = removed.isDeleted;
+      comment.isRemoved = removed.isRemoved;
+    } catch (er) {
+      this.error('Не удалось удалить комментарий.');
+    }
+  }
+
+  error(message: string) {
+    Toast.open({ message, type: 'is-danger', position: 'is-bottom' });
+  }
+}
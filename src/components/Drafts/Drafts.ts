@@ -0,0 +1,36 @@
+import { Vue, Component, Prop, Emit } from 'vue-property-decorator';
+import { appModule } from '../../store/app';
+import { LocalDraft, getDraftTitle } from '../../utils/draftStorage';
+
+@Component
+export default class extends Vue {
+  /** Draft opened in the editor */
+  @Prop({ type: String, default: '' }) readonly activeId!: string;
+
+  get drafts() {
+    return appModule.drafts;
+  }
+
+  @Emit()
+  open(draft: LocalDraft) {
+    return draft;
+  }
+
+  title(draft: LocalDraft) {
+    return getDraftTitle(draft);
+  }
+
+  date(draft: LocalDraft) {
+    return new Date(draft.updatedAt).toLocaleString('ru');
+  }
+
+  rename(draft: LocalDraft, name: string) {
+    if (name !== draft.name) {
+      appModule.saveDraft({ ...draft, name: name.slice(0, 100) });
+    }
+  }
+
+  remove(draft: LocalDraft) {
+    appModule.removeDraft(draft.id);
+  }
+}
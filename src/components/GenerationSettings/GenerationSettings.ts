@@ -0,0 +1,46 @@
+import { Vue, Component, Watch } from 'vue-property-decorator';
+import debounce from 'debounce';
+import { appModule } from '../../store/app';
+import { GenerationSettings } from '../../interfaces';
+import { GENERATION_LIMITS } from '../../utils/generationSettings';
+
+@Component
+export default class extends Vue {
+  settings: GenerationSettings = { ...appModule.generationSettings };
+  limits = GENERATION_LIMITS;
+  debouncedSave!: () => void;
+
+  get storeSettings() {
+    return appModule.generationSettings;
+  }
+
+  @Watch('storeSettings')
+  onStoreSettingsChange(settings: GenerationSettings) {
+    // the profile settings come after login
+    this.settings = { ...settings };
+  }
+
+  @Watch('settings', { deep: true })
+  onSettingsChange() {
+    this.debouncedSave();
+  }
+
+  created() {
+    this.debouncedSave = debounce(() => this.save(), 500);
+  }
+
+  save() {
+    const keys = Object.keys(this.settings) as (keyof GenerationSettings)[];
+    if (keys.some(x => this.settings[x] !== this.storeSettings[x])) {
+      appModule.setGenerationSettings({ ...this.settings });
+    }
+  }
+
+  reset() {
+    const settings = { ...this.settings };
+    (Object.keys(this.limits) as (keyof GenerationSettings)[]).forEach(x => {
+      settings[x] = this.limits[x].default;
+    });
+    this.settings = settings;
+  }
+}
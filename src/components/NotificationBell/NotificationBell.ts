@@ -0,0 +1,180 @@
+import { Vue, Component, Watch } from 'vue-property-decorator';
+import { ToastProgrammatic as Toast } from 'buefy';
+import { Notification } from '../../../classes/Notification';
+import {
+  MailPreferencesResponse,
+  MailSettings,
+  NotificationSettings
+} from '../../interfaces';
+import NotificationService from '../../services/NotificationService';
+import MailService from '../../services/MailService';
+import { appModule } from '../../store/app';
+import {
+  getNotificationLink,
+  getNotificationText,
+  NOTIFICATION_TYPES,
+  NOTIFICATION_TYPE_LABELS
+} from '../../utils/notifications';
+import { MAIL_KINDS, MAIL_KIND_LABELS } from '../../utils/mail';
+
+/** How often the unread count is checked */
+const POLL_INTERVAL = 60 * 1000;
+const LIMIT = 20;
+
+@Component
+export default class extends Vue {
+  unreadCount = 0;
+  notifications: Notification[] = [];
+  total = 0;
+  isLoading = false;
+  isSettingsOpen = false;
+  settings: NotificationSettings | false = false;
+  mailSettings: MailPreferencesResponse | false = false;
+
+  __timer?: number;
+
+  get user() {
+    return appModule.user;
+  }
+
+  get hasMore() {
+    return this.notifications.length < this.total;
+  }
+
+  get types() {
+    return NOTIFICATION_TYPES.map(value => ({
+      value,
+      text: NOTIFICATION_TYPE_LABELS[value]
+    }));
+  }
+
+  get mailKinds() {
+    return MAIL_KINDS.map(value => ({
+      value,
+      text: MAIL_KIND_LABELS[value]
+    }));
+  }
+
+  @Watch('user')
+  onUserChange() {
+    this.notifications = [];
+    this.settings = false;
+    this.mailSettings = false;
+    this.checkUnread();
+  }
+
+  mounted() {
+    this.checkUnread();
+    this.__timer = window.setInterval(() => this.checkUnread(), POLL_INTERVAL);
+  }
+
+  beforeDestroy() {
+    window.clearInterval(this.__timer);
+  }
+
+  text(notification: Notification) {
+    return getNotificationText(notification);
+  }
+
+  link(notification: Notification) {
+    return getNotificationLink(notification);
+  }
+
+  date(value: Date | string) {
+    return new Date(value).toLocaleString('ru');
+  }
+
+  async checkUnread() {
+    if (!this.user) {
+      this.unreadCount = 0;
+      return;
+    }
+    try {
+      this.unreadCount = (await NotificationService.unread()).count;
+    } catch (er) {
+      //
+    }
+  }
+
+  /** Load the list when the dropdown opens and mark everything as read */
+  async onActiveChange(isActive: boolean) {
+    if (!isActive) {
+      return;
+    }
+    this.isSettingsOpen = false;
+    await this.load();
+    if (this.unreadCount) {
+      try {
+        this.unreadCount = (await NotificationService.read()).count;
+      } catch (er) {
+        //
+      }
+    }
+  }
+
+  async load(more = false) {
+    this.isLoading = true;
+    try {
+      const resp = await NotificationService.all({
+        limit: LIMIT,
+        offset: more ? this.notifications.length : 0
+      });
+      this.notifications = more
+        ? [...this.notifications, ...resp.data]
+        : resp.data;
+      this.total = resp.total;
+      this.unreadCount = resp.unreadCount;
+    } catch (er) {
+      Toast.open({
+        message: 'Не удалось загрузить уведомления.',
+        type: 'is-danger',
+        position: 'is-bottom'
+      });
+    } finally {
+      this.isLoading = false;
+    }
+  }
+
+  async openSettings() {
+    this.isSettingsOpen = true;
+    if (this.settings) {
+      return;
+    }
+    try {
+      const [settings, mailSettings] = await Promise.all([
+        NotificationService.preferences(),
+        MailService.preferences()
+      ]);
+      this.settings = settings;
+      this.mailSettings = mailSettings;
+    } catch (er) {
+      this.isSettingsOpen = false;
+    }
+  }
+
+  async setSetting(type: keyof NotificationSettings, value: boolean) {
+    try {
+      this.settings = await NotificationService.setPreferences({
+        [type]: value
+      });
+    } catch (er) {
+      Toast.open({
+        message: 'Не удалось сохранить настройки.',
+        type: 'is-danger',
+        position: 'is-bottom'
+      });
+    }
+  }
+
+  async setMailSetting(kind: keyof MailSettings, value: boolean) {
+    try {
+      this.mailSettings = await MailService.setPreferences({ [kind]: value });
+    } catch (er) {
+      Toast.open({
+        message: 'Не удалось сохранить настройки.',
+        type: 'is-danger',
+        position: 'is-bottom'
+      });
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { Vue, Component, Prop, Emit } from 'vue-property-decorator';
+
+@Component
+export default class extends Vue {
+  @Prop({ type: Array, default: () => [] }) readonly sets!: string[][];
+  @Prop({ type: Number, default: 0 }) readonly setIndex!: number;
+  @Prop({ type: Number, default: 0 }) readonly index!: number;
+
+  get candidates() {
+    return this.sets[this.setIndex] || [];
+  }
+
+  /** Emits `setIndex` and `index` of the candidate to show */
+  @Emit()
+  select(setIndex: number, index: number) {
+    // emitted with the arguments
+  }
+
+  @Emit()
+  accept() {
+    // emitted without arguments
+  }
+
+  @Emit()
+  regenerate() {
+    // emitted without arguments
+  }
+}
@@ -0,0 +1,78 @@
+import { Vue, Component, Prop, Emit } from 'vue-property-decorator';
+import { ToastProgrammatic as Toast } from 'buefy';
+import { Story } from '../../../classes/Story';
+import { Comment } from '../../../classes/Comment';
+import { ViolationReason } from '../../interfaces';
+import StoryService from '../../services/StoryService';
+import CommentService from '../../services/CommentService';
+import { ApiError } from '../../utils/ApiError';
+import {
+  MAX_VIOLATION_COMMENT_LENGTH,
+  VIOLATION_REASONS,
+  VIOLATION_REASON_LABELS
+} from '../../utils/moderation';
+
+@Component
+export default class extends Vue {
+  @Prop({ type: Object }) readonly story?: Story;
+  /** Report the comment instead of the story */
+  @Prop({ type: Object }) readonly comment?: Comment;
+
+  reason: ViolationReason | null = null;
+  note = '';
+  isLoading = false;
+
+  get reasons() {
+    return VIOLATION_REASONS.map(value => ({
+      value,
+      text: VIOLATION_REASON_LABELS[value]
+    }));
+  }
+
+  get maxLength() {
+    return MAX_VIOLATION_COMMENT_LENGTH;
+  }
+
+  @Emit()
+  sent() {
+    //
+  }
+
+  async submit() {
+    if (!this.reason) {
+      return;
+    }
+    this.isLoading = true;
+    try {
+      const data = {
+        reason: this.reason,
+        comment: this.note.trim() || undefined
+      };
+      if (this.comment) {
+        await CommentService.violation(this.comment.id, data);
+      } else if (this.story) {
+        await StoryService.violation(this.story, data);
+      }
+      Toast.open({
+        message: 'Спасибо, сообщение о нарушение отправлено на рассмотрение',
+        type: 'is-success',
+        position: 'is-bottom',
+        duration: 6000
+      });
+      this.sent();
+    } catch (er) {
+      Toast.open({
+        message:
+          er instanceof ApiError && er.code === 'already-reported'
+            ? this.comment
+              ? 'Вы уже сообщили о нарушении в этом комментарии.'
+              : 'Вы уже сообщили о нарушении в этой истории.'
+            : 'Не удалось отправить сообщение о нарушении.',
+        type: 'is-danger',
+        position: 'is-bottom'
+      });
+    } finally {
+      this.isLoading = false;
+    }
+  }
+}
@@ -1,17 +1,35 @@
 import { Vue, Component, Watch, Model } from 'vue-property-decorator';
+import { ToastProgrammatic as Toast } from 'buefy';
 
 import { Story } from '../../../classes/Story';
+import { Visibility } from '../../interfaces';
 import { schemeToHtml } from '../../utils/schemeUtils';
 import { copyStory, CopyType } from '../../utils/copyToClipboard';
 import { SITE } from '../../config';
 import StoryService from '../../services/StoryService';
+import TagService from '../../services/TagService';
 import { appModule } from '../..//store/app';
+import { can } from '../../utils/permissions';
+import { ApiError } from '../../utils/ApiError';
+import { PUBLISH_ERRORS } from '../../utils/publishErrors';
 
-@Component
+@Component({
+  components: {
+    CollectionPicker: () =>
+      import(
+        /* webpackChunkName: "collection-picker" */ '../CollectionPicker/CollectionPicker.vue'
+      )
+  }
+})
 export default class extends Vue {
   @Model('update', {}) readonly story!: Story;
 
   isError = false;
+  tags: string[] = [];
+  tagsSuggestions: string[] = [];
+  tagsLoading = false;
+  visibilityLoading = false;
+  isCollectionsOpen = false;
 
   get location() {
     return SITE; // window.location.origin;
@@ -28,6 +46,37 @@ export default class extends Vue {
     return null;
   }
 
+  /** Secret link to manage the story without login */
+  get editUrl() {
+    if (this.story && this.story.editId) {
+      return `${this.shareUrl}?edit=${this.story.editId}`;
+    }
+    return null;
+  }
+
+  /** Only a saved story can be added */
+  get canCollect() {
+    return (
+      !!this.story && !!this.story.id && can(this.user, 'collection:create')
+    );
+  }
+
+  get canManage() {
+    const user = this.user;
+    if (!this.story) {
+      return false;
+    }
+    return (
+      !!this.story.editId ||
+      (!!user && (this.story.userId === user.id || can(user, 'story:manage')))
+    );
+  }
+
+  get visibility(): Visibility {
+    const story = this.story;
+    return story.visibility || (story.isPublic ? 'public' : 'unlisted');
+  }
+
   get isLoading() {
     return !this.story;
   }
@@ -41,20 +90,70 @@ export default class extends Vue {
     return this.story && this.story.postcard;
   }
 
-  @Watch('story.isPublic')
-  async onPublicChange(isPublic: boolean, oldVal: boolean) {
-    if (oldVal !== undefined && this.user && this.story.editId) {
+  @Watch('story.tags', { immediate: true })
+  onTagsChange() {
+    const tags = this.story && this.story.tags;
+    this.tags = tags ? tags.map(x => x.name) : [];
+  }
+
+  async setVisibility(visibility: Visibility) {
+    this.visibilityLoading = true;
+    try {
       const edited = await StoryService.edit(this.story.id, {
         editId: this.story.editId,
-        isPublic
+        visibility
       });
-      if (edited) {
+      if (edited && edited.visibility) {
+        this.story.visibility = edited.visibility;
+        this.story.isPublic = edited.isPublic;
         if (edited.isPublic) {
           appModule.appendStories(this.story);
         } else {
           appModule.removeFromStories(this.story);
         }
       }
+    } catch (er) {
+      // the public story passes the anti-abuse checks again
+      Toast.open({
+        message:
+          (er instanceof ApiError && PUBLISH_ERRORS[er.code]) ||
+          'Не удалось изменить видимость истории.',
+        type: 'is-danger',
+        position: 'is-bottom'
+      });
+    } finally {
+      this.visibilityLoading = false;
+    }
+  }
+
+  async getTagsSuggestions(query: string) {
+    try {
+      const tags = await TagService.all({ query, limit: 10 });
+      this.tagsSuggestions = tags
+        .map(x => x.name)
+        .filter(x => !this.tags.includes(x));
+    } catch (er) {
+      this.tagsSuggestions = [];
+    }
+  }
+
+  async saveTags(tags: string[]) {
+    this.tagsLoading = true;
+    try {
+      const edited = await StoryService.edit(this.story.id, {
+        editId: this.story.editId,
+        tags
+      });
+      if (edited && edited.tags) {
+        appModule.updateStory({
+          id: this.story.id,
+          params: { tags: edited.tags }
+        });
+      }
+    } catch (er) {
+      console.log(er);
+    } finally {
+      this.tagsLoading = false;
     }
   }
 
@@ -1,17 +1,32 @@
 import { Vue, Component, Prop, Emit } from 'vue-property-decorator';
 import { ToastProgrammatic as Toast } from 'buefy';
-import { Story } from '../../../classes/Story';
 import config from '../../../config';
 import LikeButton from '../LikeButton';
 import StoryService from '../../services/StoryService';
 import { appModule } from '../../store/app';
 import { escapeHtml } from '../../utils/escapeHtml';
+import { StoryResponse } from '../../interfaces';
+import { can } from '../../utils/permissions';
+import { ApiError } from '../../utils/ApiError';
 
-@Component({ components: { LikeButton } })
+@Component({
+  components: {
+    LikeButton,
+    ReportForm: () =>
+      import(
+        /* webpackChunkName: "report-form" */ '../ReportForm/ReportForm.vue'
+      ),
+    CollectionPicker: () =>
+      import(
+        /* webpackChunkName: "collection-picker" */ '../CollectionPicker/CollectionPicker.vue'
+      )
+  }
+})
 export default class extends Vue {
-  @Prop({ type: Object }) readonly story!: Story;
+  @Prop({ type: Object }) readonly story!: StoryResponse;
 
-  violationLoading = false;
+  isReportModalActive = false;
+  isCollectionModalActive = false;
   deleteLoading = false;
   publishLoading = false;
 
@@ -42,15 +57,19 @@ export default class extends Vue {
   }
 
   get userCanEdit() {
-    return this.isSuperuser || this.isOwner;
+    return can(this.user, 'story:manage') || this.isOwner;
   }
 
   get isOwner() {
-    return this.user && this.user.id === this.story.user?.id;
+    return this.user && this.user.id === this.story.userId;
+  }
+
+  get canCollect() {
+    return can(this.user, 'collection:create');
   }
 
-  get isSuperuser() {
-    return this.user && this.user.isSuperuser;
+  get isModerator() {
+    return can(this.user, 'story:moderate');
   }
 
   get alreadySet(): boolean {
@@ -66,24 +85,43 @@ export default class extends Vue {
     return this.story;
   }
 
+  @Emit()
+  tag(name: string) {
+    return name;
+  }
+
   go() {
     this.$router.push('/' + this.story.id);
   }
 
+  get expiresAt() {
+    const expiresAt = this.story.expiresAt;
+    return expiresAt ? new Date(expiresAt).toLocaleDateString('ru') : '';
+  }
+
   async remove() {
     this.deleteLoading = true;
     try {
-      const deleted = await StoryService.edit(this.story.id, {
-        isDeleted: !this.story.isDeleted
+      const deleted = this.story.isDeleted
+        ? await StoryService.restore(this.story.id)
+        : await StoryService.remove(this.story.id);
+      appModule.updateStory({
+        id: this.story.id,
+        params: {
+          isDeleted: deleted.isDeleted,
+          deletedAt: deleted.deletedAt,
+          expiresAt: deleted.expiresAt
+        }
+      });
+    } catch (er) {
+      Toast.open({
+        message:
+          er instanceof ApiError && er.code === 'trash-expired'
+            ? 'Срок хранения истории в корзине истёк.'
+            : 'Не удалось изменить историю.',
+        type: 'is-danger',
+        position: 'is-bottom'
       });
-      if (deleted) {
-        appModule.updateStory({
-          id: this.story.id,
-          params: { isDeleted: deleted.isDeleted }
-        });
-      }
-    } catch {
-      //
     }
     this.deleteLoading = false;
   }
@@ -92,12 +130,12 @@ export default class extends Vue {
     this.publishLoading = true;
     try {
       const resp = await StoryService.edit(this.story.id, {
-        isPublic: !this.story.isPublic
+        visibility: this.story.isPublic ? 'unlisted' : 'public'
       });
       if (resp) {
         appModule.updateStory({
           id: this.story.id,
-          params: { isPublic: resp.isPublic }
+          params: { isPublic: resp.isPublic, visibility: resp.visibility }
         });
       }
     } catch {
@@ -105,21 +143,4 @@ export default class extends Vue {
     }
     this.publishLoading = false;
   }
-
-  async violation() {
-    this.violationLoading = true;
-    try {
-      await StoryService.violation(this.story);
-      Toast.open({
-        message: 'Спасибо, сообщение о нарушение отправлено на рассмотрение',
-        type: 'is-success',
-        position: 'is-bottom',
-        duration: 6000
-      });
-    } catch (er) {
-      console.log(er);
-    } finally {
-      this.violationLoading = false;
-    }
-  }
 }
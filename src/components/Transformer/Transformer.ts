@@ -2,12 +2,25 @@ import { Vue, Component, Watch, Emit, Model } from 'vue-property-decorator';
 import Quill, { Sources } from 'quill';
 import { SnackbarProgrammatic as Snackbar } from 'buefy';
 import debounce from 'debounce';
-import config from '../../../config';
 import PlainClipboard from '../../utils/PlainClipboard';
-import { Delta, Scheme } from '../../interfaces';
+import {
+  Delta,
+  EditorStep,
+  GenerationStreamEvent,
+  RepliesState,
+  Scheme
+} from '../../interfaces';
 import { PRIMARY_COLOR } from '../../config';
 import { schemeToDelta, deltaToScheme } from '../../utils/schemeUtils';
 import { appModule } from '@/store/app';
+import { getAuthHeaders } from '../../utils/getAuthHeaders';
+import { getSessionId } from '../../utils/getSessionId';
+import { readEventStream } from '../../utils/readEventStream';
+import { getGenerationParams } from '../../utils/generationSettings';
+import GenerationSettings from '../GenerationSettings/GenerationSettings.vue';
+import RepliesPicker from '../RepliesPicker/RepliesPicker.vue';
+import { EditorHistory } from '../../utils/EditorHistory';
+import { LocalDraft, generateDraftId } from '../../utils/draftStorage';
 
 // const ESC = 27;
 // const TAB = 9;
@@ -16,24 +29,19 @@ import { appModule } from '@/store/app';
 
 Quill.register('modules/clipboard', PlainClipboard, true);
 
-interface TransformResp {
-  replies?: string[];
-  detail?: string;
-}
-
-@Component
+@Component({ components: { GenerationSettings, RepliesPicker } })
 export default class Transformer extends Vue {
   @Model('change', { type: Array, default: () => [] }) readonly scheme!: Scheme;
   text = '';
   html = '';
   isLoading = false;
+  /** The editor is changed by inserting or removing a reply candidate */
+  isReplyChanging = false;
   isError = false;
   isAutocomplete = false;
   isSettings = false;
   lastReply = '';
-  replies: string[] = [];
-  interval = 1;
-  length = 30;
+  replies: RepliesState = { sets: [], setIndex: 0, index: 0 };
   placeholder = 'Придумайте начало истории';
   quill!: Quill;
 
@@ -42,15 +50,29 @@ export default class Transformer extends Vue {
   abortControllers: AbortController[] = [];
   promptMaxLength = 1000;
   debouncedTransform!: () => void;
-  debouncedHistory!: () => void;
+  debouncedHistory!: (() => void) & { flush(): void };
 
   historyInterval = 300;
-  historyLength = 100;
-  history: Scheme[] = [];
+  /** User edits, shown, accepted and rejected replies are separate steps */
+  history = new EditorHistory<EditorStep>(100);
+
+  /** Id of the draft the editor autosaves to, set with the first change */
+  draftId = '';
+  draftCreatedAt: Date | null = null;
+  draftInterval = 1000;
+  debouncedSaveDraft!: (() => void) & { flush(): void; clear(): void };
 
   __onKeydown!: (e: KeyboardEvent) => void;
   __windowUnload?: (e: BeforeUnloadEvent) => void;
 
+  get interval() {
+    return appModule.generationSettings.interval;
+  }
+
+  get candidates(): string[] {
+    return this.replies.sets[this.replies.setIndex] || [];
+  }
+
   get prompt() {
     return this._stripHtml(this.text)
       .replace(this.lastReply, '')
@@ -95,7 +117,12 @@ export default class Transformer extends Vue {
   mounted() {
     this.bindDebounceTransform();
     this.bindDebounceHistory();
+    this.debouncedSaveDraft = debounce(
+      () => this.saveDraft(),
+      this.draftInterval
+    );
     this._createQuill();
+    this.history.reset({ scheme: this._getScheme() });
     this.__onKeydown = event => {
       this.onKeydown(event);
     };
@@ -103,38 +130,87 @@ export default class Transformer extends Vue {
   }
 
   destroyed() {
+    this.abort();
+    this.debouncedSaveDraft.flush();
     window.removeEventListener('keydown', this.__onKeydown);
     this.removeWindowUnloadListener();
   }
 
-  appendHistory(scheme: Scheme) {
-    const history = [...this.history];
-    if (history.length > this.historyLength) {
-      history.splice(0, history.length - this.historyLength, scheme);
-    } else {
-      history.push(scheme);
+  undo() {
+    this.debouncedHistory.flush();
+    this._restore(this.history.undo());
+  }
+
+  redo() {
+    this.debouncedHistory.flush();
+    this._restore(this.history.redo());
+  }
+
+  updateHistory() {
+    const scheme = this._getScheme();
+    const replies =
+      this.lastReply && this.candidates.length ? this.replies : undefined;
+    this.history.push({ scheme, replies });
+    this.debouncedSaveDraft();
+  }
+
+  /** Keep the text, shown candidates and undo history in the browser */
+  saveDraft() {
+    const scheme = this._getScheme();
+    if (!scheme.some(x => x[0].trim())) {
+      return;
+    }
+    if (!this.draftId) {
+      this.draftId = generateDraftId();
+      this.draftCreatedAt = new Date();
     }
-    this.history = history;
-    console.log(this.history);
+    const saved = appModule.drafts.find(x => x.id === this.draftId);
+    appModule.saveDraft({
+      id: this.draftId,
+      // renamed in the drafts list
+      name: saved ? saved.name : '',
+      content: JSON.stringify(scheme),
+      replies: this.lastReply && this.candidates.length ? this.replies : null,
+      history: this.history.toJSON(),
+      createdAt: this.draftCreatedAt || new Date(),
+      updatedAt: new Date()
+    });
   }
 
-  historyBack() {
-    this.abort();
-    this.cleanLastReply();
-    const history = [...this.history];
-    history.pop(); // last changes
-    const prev = history.pop();
-    if (prev) {
-      this._setScheme(prev);
+  loadDraft(draft: LocalDraft) {
+    this.debouncedSaveDraft.clear();
+    this.draftId = draft.id;
+    this.draftCreatedAt = new Date(draft.createdAt);
+    if (draft.history && draft.history.undo.length) {
+      this.history.load(draft.history);
     } else {
-      this.clean();
+      this.history.reset({
+        scheme: JSON.parse(draft.content),
+        replies: draft.replies || undefined
+      });
     }
-    this.history = history;
+    this._restore(this.history.current);
+    this.debouncedSaveDraft.clear();
   }
 
-  updateHistory() {
-    const scheme = this._getScheme();
-    this.appendHistory(scheme);
+  /** Start a new story, the current draft stays in the drafts list */
+  newDraft() {
+    this.debouncedSaveDraft.flush();
+    this.draftId = '';
+    this.draftCreatedAt = null;
+    this.clean();
+    this._resetReplies();
+    this.history.reset({ scheme: [] });
+  }
+
+  /** The story is published, its draft is not needed anymore */
+  async removeDraft() {
+    this.debouncedSaveDraft.clear();
+    if (this.draftId) {
+      await appModule.removeDraft(this.draftId);
+    }
+    this.draftId = '';
+    this.draftCreatedAt = null;
   }
 
   clean() {
@@ -150,19 +226,64 @@ export default class Transformer extends Vue {
       this.abort();
     } else if (this.lastReply) {
       this.cleanLastReply();
+      this._resetReplies();
+      this.updateHistory();
     } else {
       this.clean();
+      this.updateHistory();
     }
   }
 
   cleanLastReply() {
     const text = this.quill.getText();
-    const index = text.indexOf(this.lastReply);
+    const index = this.lastReply ? text.lastIndexOf(this.lastReply) : -1;
     if (index !== -1) {
-      this.quill.deleteText(index, this.lastReply.length, 'api');
+      this.isReplyChanging = true;
+      try {
+        this.quill.deleteText(index, this.lastReply.length, 'api');
+      } finally {
+        this.isReplyChanging = false;
+      }
     }
     this.lastReply = '';
-    this.replies = [];
+    this.setCursor();
+  }
+
+  /** Show another candidate in place of the current one */
+  selectReply(setIndex: number, index: number) {
+    const reply = (this.replies.sets[setIndex] || [])[index];
+    if (reply === undefined || this.isLoading) {
+      return;
+    }
+    this.cleanLastReply();
+    this._insertReply(reply);
+    this.replies = { ...this.replies, setIndex, index };
+    this.updateHistory();
+  }
+
+  moveReply(step: number) {
+    const length = this.candidates.length;
+    if (length) {
+      const index = (this.replies.index + step + length) % length;
+      this.selectReply(this.replies.setIndex, index);
+    }
+  }
+
+  moveReplySet(step: number) {
+    const setIndex = this.replies.setIndex + step;
+    if (setIndex >= 0 && setIndex < this.replies.sets.length) {
+      this.selectReply(setIndex, 0);
+    }
+  }
+
+  /** Keep the shown candidate as a part of the story */
+  acceptReply() {
+    if (!this.lastReply) {
+      return;
+    }
+    this.lastReply = '';
+    this._resetReplies();
+    this.updateHistory();
     this.setCursor();
   }
 
@@ -170,9 +291,11 @@ export default class Transformer extends Vue {
     this.setContent();
     this.text = this.quill.getText();
     this.setPlaceholder();
-    this.lastReply = '';
-    this.replies = [];
-    this.abort();
+    if (!this.isReplyChanging || source === 'user') {
+      this.lastReply = '';
+      this._resetReplies();
+      this.abort();
+    }
     if (source === 'user') {
       let insert: string | undefined;
       let retain = 0;
@@ -199,8 +322,9 @@ export default class Transformer extends Vue {
       if (this.isAutocomplete) {
         this.debouncedTransform();
       }
+      // replies and restored steps are recorded by the caller
+      this.debouncedHistory();
     }
-    this.debouncedHistory();
     if (this.text.trim().length) {
       this._addWindowUnloadListener();
     } else {
@@ -218,11 +342,32 @@ export default class Transformer extends Vue {
         this.transform();
       }
     } else if (e.key === 'Escape') {
-      // this.escape();
-    } else if (e.key === 'z' && (e.metaKey || e.ctrlKey)) {
-      console.log('ctrl-z');
-      this.historyBack();
-      // TODO: return last reply
+      if (this.lastReply) {
+        this.escape();
+      }
+    } else if (e.altKey && this.lastReply && this.candidates.length) {
+      const actions: Record<string, () => void> = {
+        ArrowUp: () => this.moveReply(-1),
+        ArrowDown: () => this.moveReply(1),
+        ArrowLeft: () => this.moveReplySet(-1),
+        ArrowRight: () => this.moveReplySet(1),
+        Enter: () => this.acceptReply()
+      };
+      const action = actions[e.key];
+      if (action) {
+        e.preventDefault();
+        action();
+      }
+    } else if ((e.metaKey || e.ctrlKey) && !this._isFormField(e.target)) {
+      const key = e.key.toLowerCase();
+      if (key === 'z' || key === 'y') {
+        e.preventDefault();
+        if (key === 'y' || e.shiftKey) {
+          this.redo();
+        } else {
+          this.undo();
+        }
+      }
     }
   }
 
@@ -235,32 +380,13 @@ export default class Transformer extends Vue {
         return;
       }
       this.isLoading = true;
-      let replies: string[] | undefined;
-      if (this.replies.length) {
-        replies = this.replies;
-      } else {
-        const data = await this._request(prompt);
-        replies = data && data.replies;
-        if (replies) {
-          appModule.appendReplies(replies);
-        }
-      }
+      // a new set replaces the shown candidate, the previous sets are kept
+      const replies = await this._requestStream(prompt);
       if (replies && !mem.isAborted) {
-        const reply = replies.pop() || '';
-        this.cleanLastReply();
-        const text = this.quill.getText();
-        const length = text.length - 1;
-        this.quill.insertText(
-          length,
-          reply,
-          {
-            bold: true,
-            color: PRIMARY_COLOR
-          },
-          'api'
-        );
-        this.lastReply = reply;
-        this.replies = replies;
+        appModule.appendReplies(replies);
+        const sets = [...this.replies.sets, replies];
+        // the first reply is already in the editor
+        this.replies = { sets, setIndex: sets.length - 1, index: 0 };
       }
     } catch (err) {
       if (err && err.name === 'AbortError') {
@@ -272,6 +398,9 @@ export default class Transformer extends Vue {
       }
     } finally {
       this.isLoading = false;
+      if (this.lastReply) {
+        this.updateHistory();
+      }
       this.setCursor();
     }
   }
@@ -323,24 +452,69 @@ export default class Transformer extends Vue {
     });
   }
 
-  private async _request(prompt: string) {
+  /** Insert the text after the last one written, or after `lastReply` */
+  private _insertReply(token: string) {
+    const text = this.quill.getText();
+    const length = text.length - 1;
+    this.isReplyChanging = true;
+    try {
+      this.quill.insertText(
+        length,
+        token,
+        {
+          bold: true,
+          color: PRIMARY_COLOR
+        },
+        'api'
+      );
+    } finally {
+      this.isReplyChanging = false;
+    }
+    this.lastReply += token;
+  }
+
+  private _resetReplies() {
+    this.replies = { sets: [], setIndex: 0, index: 0 };
+  }
+
+  /**
+   * Request replies and write the first one into the editor token by token.
+   * Resolve with all the replies when the generation is complete.
+   */
+  private async _requestStream(prompt: string) {
     const controller = new AbortController();
     this.abortControllers.push(controller);
 
     prompt = prompt.slice(-this.promptMaxLength);
     prompt = prompt.trim();
 
-    const resp = await fetch(`${config.endpoint}/generate/`, {
+    const { headers } = getAuthHeaders(appModule.token);
+    headers['X-Session-Id'] = getSessionId();
+    const resp = await fetch('/api/generate/stream', {
       method: 'POST',
       signal: controller.signal,
+      headers,
       body: JSON.stringify({
-        prompt,
-        length: this.length
-        // num_samples: 4 // eslint-disable-line @typescript-eslint/camelcase
+        ...getGenerationParams(appModule.generationSettings),
+        prompt
       })
     });
-    const data: TransformResp = await resp.json();
-    return data;
+    if (!resp.ok) {
+      throw new Error(resp.statusText);
+    }
+    let replies: string[] | undefined;
+    this.cleanLastReply();
+    await readEventStream(resp, (event, data) => {
+      const e = { event, data } as GenerationStreamEvent;
+      if (e.event === 'token' && e.data.index === 0) {
+        this._insertReply(e.data.token);
+      } else if (e.event === 'done') {
+        replies = e.data.replies;
+      } else if (e.event === 'error') {
+        throw new Error(e.data.detail);
+      }
+    });
+    return replies;
   }
 
   private _createQuill() {
@@ -384,6 +558,20 @@ export default class Transformer extends Vue {
     }
   }
 
+  private _restore(entry?: EditorStep) {
+    if (!entry) {
+      return;
+    }
+    this.abort();
+    this._setScheme(entry.scheme);
+    if (entry.replies) {
+      // candidates rejected at that point can be picked again
+      this.replies = entry.replies;
+      this.lastReply = this.candidates[entry.replies.index] || '';
+    }
+    this.debouncedSaveDraft();
+  }
+
   private _setScheme(scheme: Scheme) {
     const delta = schemeToDelta(scheme);
     const ops = delta.ops;
@@ -397,6 +585,13 @@ export default class Transformer extends Vue {
     return deltaToScheme(content);
   }
 
+  private _isFormField(target: EventTarget | null) {
+    return (
+      target instanceof HTMLInputElement ||
+      target instanceof HTMLTextAreaElement
+    );
+  }
+
   private _stripHtml(html: string) {
     const tmp = document.createElement('div');
     tmp.innerHTML = html;
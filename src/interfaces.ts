@@ -1,5 +1,12 @@
 import { DeltaOperation } from 'quill';
 import { Story } from '../classes/Story';
+import { Violation } from '../classes/Violation';
+import { ModerationDecision } from '../classes/ModerationDecision';
+import { AuditEvent } from '../classes/AuditEvent';
+import { Appeal } from '../classes/Appeal';
+import { Comment } from '../classes/Comment';
+import { Collection } from '../classes/Collection';
+import { Notification } from '../classes/Notification';
 
 export interface Delta {
   ops: DeltaOperation[];
@@ -17,31 +24,331 @@ export type StoryResponseSelect =
   | 'postcard';
 
 // export type StoryResponse = Pick<Story, StoryResponseSelect>
-export type StoryResponse = Story;
+export type StoryResponse = Story & {
+  /** Escaped HTML snippet with the search matches wrapped in `<mark>` */
+  highlight?: string;
+  /** When the story in the trash will be removed for good */
+  expiresAt?: Date | string | null;
+};
 
 export interface GetStoriesOptions {
   limit?: number;
-  offset?: number;
+  /** Opaque `nextCursor` of the previous page */
+  cursor?: string;
+  /** Fixes the random order between pages */
+  seed?: string;
   orderBy?: string[];
   afterDate?: number;
   filter?: string;
   query?: string;
+  searchIn?: SearchIn;
   tags?: string;
+  /** Public stories of the user with this id */
+  author?: number;
 }
 
+/** Public part of the user profile, `GET /api/user/:id/public` */
+export interface UserProfile {
+  id: number;
+  username: string;
+  displayName?: string | null;
+  photoUrl?: string;
+  bio?: string | null;
+  createdAt: Date | string;
+  /** Public stories */
+  storiesCount: number;
+  /** Likes of the public stories */
+  likesCount: number;
+  followersCount: number;
+  followingCount: number;
+  /** The logged in user follows this one */
+  isFollowing: boolean;
+}
+
+export interface FollowResponse {
+  isFollowing: boolean;
+  followersCount: number;
+}
+
+export interface FeedUnreadResponse {
+  /** New stories of the followed authors since the feed was opened */
+  count: number;
+}
+
+/** `GET /api/collection` */
+export type CollectionListItem = Collection & {
+  storiesCount: number;
+  /** The collection has the story from the `storyId` query */
+  hasStory?: boolean;
+};
+
+/** `GET /api/collection/:id`, the stories in the collection order */
+export type CollectionResponse = Collection & {
+  stories: StoryResponse[];
+  /** The logged in user owns the collection */
+  isOwner: boolean;
+};
+
+/**
+ * like - the story was liked
+ * moderation - the story was hidden or banned, the comment removed
+ * fork - someone continued the story
+ * follow - a new follower
+ * comment - a comment on the story or an answer to the comment
+ */
+export type NotificationType =
+  | 'like'
+  | 'moderation'
+  | 'fork'
+  | 'follow'
+  | 'comment';
+
+/** Which events notify the user, all of them by default */
+export type NotificationSettings = Record<NotificationType, boolean>;
+
+export interface NotificationsResponse {
+  object: 'list';
+  data: Notification[];
+  total: number;
+  unreadCount: number;
+}
+
+export interface NotificationUnreadResponse {
+  count: number;
+}
+
+/**
+ * digest - the weekly top stories
+ * likes - the story of the user got a round number of likes
+ * moderation - the story was hidden or banned, the comment removed
+ */
+export type MailKind = 'digest' | 'likes' | 'moderation';
+
+/** Which mail the user gets, all of it by default */
+export type MailSettings = Record<MailKind, boolean>;
+
+export interface MailPreferencesResponse extends MailSettings {
+  /** The mail goes to the verified email from the login */
+  hasEmail: boolean;
+}
+
+export type MailStatus = 'pending' | 'sent' | 'failed';
+
 export interface StoriesResponse {
   object: 'list';
   data: StoryResponse[];
+  /** Pass as `cursor` to get the next page, `null` for the last page */
+  nextCursor: string | null;
+  seed?: string;
+}
+
+export interface TagResponse {
+  name: string;
+  /** Number of public stories with this tag */
+  count: number;
+}
+
+/** Generated replies for the current prompt in the editor */
+export interface RepliesState {
+  /** Every regeneration adds a set, the previous ones stay reachable */
+  sets: string[][];
+  setIndex: number;
+  /** Index of the shown candidate in the set */
+  index: number;
+}
+
+/** Step of the editor undo/redo history */
+export interface EditorStep {
+  scheme: Scheme;
+  /** The picker state when the step was shown with a reply candidate */
+  replies?: RepliesState;
 }
 
+/** Parameters of the generation backend */
+export interface GenerationParams {
+  /** Number of words to generate */
+  length: number;
+  temperature: number;
+  topK: number;
+  topP: number;
+  /** Number of replies to generate */
+  numSamples: number;
+}
+
+export interface GenerationSettings extends GenerationParams {
+  /** Seconds of the typing pause before autocomplete */
+  interval: number;
+}
+
+/** Events of `/api/generate/stream` */
+export type GenerationStreamEvent =
+  | { event: 'token'; data: { index: number; token: string } }
+  | { event: 'done'; data: { replies: string[] } }
+  | { event: 'error'; data: { detail: string } };
+
 /**
  * 0 - user
  * 1 - AI
  */
 export type Scheme = [string, 0 | 1][];
 
-export type FilterType = 'all' | 'my' | 'favorite';
-export type SortType = 'random' | 'new' | 'popular';
+/**
+ * reader - can read, like and report, but not write
+ * author - can also write stories, the default
+ * moderator - can also hide stories and ban users
+ * admin - can also manage users and roles
+ */
+export type Role = 'reader' | 'author' | 'moderator' | 'admin';
+
+/**
+ * private - only the author
+ * unlisted - anyone with the link
+ * public - also shown in the gallery
+ */
+export type Visibility = 'private' | 'unlisted' | 'public';
+
+/**
+ * Why the anti-abuse checks rejected a published story
+ * rate-limited - too many stories from the account or the IP
+ * banned-words - the user text has a banned word
+ * link-spam - too many links in the user text
+ * low-user-text - almost all the text is generated
+ * duplicate - the same or almost the same story is already published
+ */
+export type PublishRejection =
+  | 'rate-limited'
+  | 'banned-words'
+  | 'link-spam'
+  | 'low-user-text'
+  | 'duplicate';
+
+export type ViolationReason =
+  | 'spam'
+  | 'offensive'
+  | 'illegal'
+  | 'personal-data'
+  | 'other';
+
+/** closed - a moderator has made the decision on the report */
+export type ViolationStatus = 'open' | 'closed';
+
+/**
+ * dismiss - the reports are groundless
+ * hide - remove the story from the gallery, the link still works
+ * ban-story - only the author and moderators can open the story
+ * ban-author - also ban the author with all the stories
+ * auto-hide - hidden by the reports, the reports stay open for a moderator
+ */
+export type ModerationAction =
+  | 'dismiss'
+  | 'hide'
+  | 'ban-story'
+  | 'ban-author'
+  | 'auto-hide';
+
+/** Result of the last moderator or automatic decision on the story */
+export type ModerationStatus =
+  | 'dismissed'
+  | 'hidden'
+  | 'banned'
+  | 'auto-hidden';
+
+/** Reported story with its open reports */
+export interface ModerationQueueItem {
+  story: Story;
+  violations: Violation[];
+  /** Number of the open reports by reason, `unknown` for the old ones */
+  reasons: Partial<Record<ViolationReason | 'unknown', number>>;
+  /** Previous decisions on the story, the latest first */
+  decisions: ModerationDecision[];
+}
+
+/**
+ * dismiss - the reports are groundless
+ * remove - hide the text of the comment from everyone
+ */
+export type CommentModerationAction = 'dismiss' | 'remove';
+
+/** Reported comment with its open reports */
+export interface CommentQueueItem {
+  comment: Comment;
+  violations: Violation[];
+}
+
+export interface CommentQueueResponse {
+  object: 'list';
+  data: CommentQueueItem[];
+  /** Number of the comments with open reports */
+  total: number;
+}
+
+export interface ModerationQueueResponse {
+  object: 'list';
+  data: ModerationQueueItem[];
+  /** Number of the stories with open reports */
+  total: number;
+}
+
+export type AuditAction =
+  | 'story:ban'
+  | 'story:unban'
+  | 'story:hide'
+  | 'story:unhide'
+  | 'story:visibility'
+  | 'story:delete'
+  | 'story:restore'
+  | 'user:ban'
+  | 'user:unban'
+  | 'user:role'
+  | 'user:delete'
+  | 'comment:remove';
+
+export type AuditTargetType = 'story' | 'user' | 'comment';
+
+export interface GetAuditEventsOptions {
+  action?: AuditAction;
+  actorId?: number;
+  targetType?: AuditTargetType;
+  targetId?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface AuditEventsResponse {
+  object: 'list';
+  data: AuditEvent[];
+  /** Pass as `cursor` to get the next page, `null` for the last page */
+  nextCursor: string | null;
+}
+
+export type AppealStatus = 'pending' | 'approved' | 'rejected';
+
+/** The ban of the user or of one of the stories */
+export interface Ban {
+  /** The `user:ban` or `story:ban` event */
+  event: AuditEvent;
+  /** The only appeal allowed for the ban */
+  appeal: Appeal | null;
+}
+
+export interface BansResponse {
+  /** The account is banned, possibly before the bans were recorded */
+  isBanned: boolean;
+  bans: Ban[];
+}
+
+/**
+ * trash - the deleted stories of the user that can be restored
+ * following - the public stories of the followed authors
+ */
+export type FilterType = 'all' | 'my' | 'favorite' | 'trash' | 'following';
+export type SortType = 'random' | 'new' | 'popular' | 'relevance';
+/**
+ * Which part of the story to search in
+ * user - text written by the user (`0` fragments)
+ * ai - text written by the neural network (`1` fragments)
+ */
+export type SearchIn = 'all' | 'user' | 'ai';
 export type Period = 'all' | 'week' | 'month' | '6-months';
 
 export interface StoriesQueryParams {
@@ -49,4 +356,5 @@ export interface StoriesQueryParams {
   sort?: SortType;
   period?: Period;
   query?: string;
+  searchIn?: SearchIn;
 }
@@ -16,6 +16,28 @@ export default new Router({
       name: 'gallery',
       component: () => import('../views/Gallery/Gallery.vue')
     },
+    {
+      path: '/moderation',
+      name: 'moderation',
+      component: () => import('../views/Moderation/Moderation.vue')
+    },
+    {
+      path: '/audit',
+      name: 'audit',
+      component: () => import('../views/Audit/Audit.vue')
+    },
+    {
+      path: '/u/:username',
+      name: 'profile',
+      props: true,
+      component: () => import('../views/Profile/Profile.vue')
+    },
+    {
+      path: '/c/:id',
+      name: 'collection',
+      props: true,
+      component: () => import('../views/Collection/Collection.vue')
+    },
     {
       path: '/login',
       name: 'login',
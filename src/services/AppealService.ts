@@ -0,0 +1,53 @@
+import { Appeal } from '../../classes/Appeal';
+import { AppealStatus, BansResponse } from '../interfaces';
+import { getAuthHeaders } from '../utils/getAuthHeaders';
+import { getQueryString } from '../utils/getQueryString';
+import { checkResponse } from '../utils/ApiError';
+import { appModule } from '../store/app';
+
+export default {
+  /** Bans of the logged in user */
+  async bans() {
+    const resp = await fetch('/api/appeal/bans', {
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as BansResponse;
+    return json;
+  },
+
+  async create(eventId: number, text: string) {
+    const resp = await fetch('/api/appeal', {
+      method: 'POST',
+      body: JSON.stringify({ eventId, text }),
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as Appeal;
+    return json;
+  },
+
+  async all(status: AppealStatus = 'pending') {
+    const resp = await fetch('/api/appeal' + getQueryString({ status }), {
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as Appeal[];
+    return json;
+  },
+
+  async decide(
+    id: number,
+    status: Exclude<AppealStatus, 'pending'>,
+    response?: string
+  ) {
+    const resp = await fetch('/api/appeal/' + id, {
+      method: 'POST',
+      body: JSON.stringify({ status, response }),
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as Appeal;
+    return json;
+  }
+};
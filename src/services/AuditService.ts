@@ -0,0 +1,28 @@
+import { AuditEvent } from '../../classes/AuditEvent';
+import { AuditEventsResponse, GetAuditEventsOptions } from '../interfaces';
+import { getAuthHeaders } from '../utils/getAuthHeaders';
+import { getQueryString } from '../utils/getQueryString';
+import { checkResponse } from '../utils/ApiError';
+import { appModule } from '../store/app';
+
+export default {
+  async all(opt: GetAuditEventsOptions = {}) {
+    const resp = await fetch('/api/audit' + getQueryString(opt), {
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as AuditEventsResponse;
+    return json;
+  },
+
+  /** Resolve with the reversed event */
+  async reverse(id: number) {
+    const resp = await fetch('/api/audit/' + id + '/reverse', {
+      method: 'POST',
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as AuditEvent;
+    return json;
+  }
+};
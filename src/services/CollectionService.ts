@@ -0,0 +1,100 @@
+import { Collection } from '../../classes/Collection';
+import { CollectionListItem, CollectionResponse } from '../interfaces';
+import { getAuthHeaders } from '../utils/getAuthHeaders';
+import { getQueryString } from '../utils/getQueryString';
+import { checkResponse } from '../utils/ApiError';
+import { appModule } from '../store/app';
+
+type CollectionFields = Partial<
+  Pick<Collection, 'title' | 'description' | 'isPublic'>
+>;
+
+export default {
+  /**
+   * Public collections of the user, the own ones without `userId`.
+   * With `storyId` every item has `hasStory`.
+   */
+  async all(opt: { userId?: number; storyId?: string } = {}) {
+    const resp = await fetch('/api/collection' + getQueryString(opt), {
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as CollectionListItem[];
+    return json;
+  },
+
+  async one(id: number | string) {
+    const resp = await fetch('/api/collection/' + id, {
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as CollectionResponse;
+    return json;
+  },
+
+  async create(data: CollectionFields) {
+    const resp = await fetch('/api/collection', {
+      method: 'POST',
+      body: JSON.stringify(data),
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as Collection;
+    return json;
+  },
+
+  async edit(id: number, data: CollectionFields) {
+    const resp = await fetch('/api/collection/' + id, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as Collection;
+    return json;
+  },
+
+  async remove(id: number) {
+    const resp = await fetch('/api/collection/' + id, {
+      method: 'DELETE',
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    return true;
+  },
+
+  async addStory(id: number, storyId: string) {
+    const resp = await fetch('/api/collection/' + id + '/stories', {
+      method: 'POST',
+      body: JSON.stringify({ storyId }),
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as { storiesCount: number };
+    return json;
+  },
+
+  async removeStory(id: number, storyId: string) {
+    const resp = await fetch(
+      '/api/collection/' + id + '/stories/' + encodeURIComponent(storyId),
+      {
+        method: 'DELETE',
+        ...getAuthHeaders(appModule.token)
+      }
+    );
+    await checkResponse(resp);
+    const json = (await resp.json()) as { storiesCount: number };
+    return json;
+  },
+
+  /** The stories from `storyIds` go first in this order */
+  async reorder(id: number, storyIds: string[]) {
+    const resp = await fetch('/api/collection/' + id + '/stories', {
+      method: 'PUT',
+      body: JSON.stringify({ storyIds }),
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    return true;
+  }
+};
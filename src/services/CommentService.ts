@@ -0,0 +1,63 @@
+import { Comment } from '../../classes/Comment';
+import { ViolationReason } from '../interfaces';
+import { getAuthHeaders } from '../utils/getAuthHeaders';
+import { checkResponse } from '../utils/ApiError';
+import { appModule } from '../store/app';
+
+export default {
+  /** All comments of the story, see `buildCommentTree` */
+  async all(storyId: string) {
+    const resp = await fetch('/api/story/' + storyId + '/comments', {
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as Comment[];
+    return json;
+  },
+
+  async create(storyId: string, text: string, parentId?: number) {
+    const resp = await fetch('/api/story/' + storyId + '/comments', {
+      method: 'POST',
+      body: JSON.stringify({ text, parentId }),
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as Comment;
+    return json;
+  },
+
+  async edit(id: number, text: string) {
+    const resp = await fetch('/api/comment/' + id, {
+      method: 'PATCH',
+      body: JSON.stringify({ text }),
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as Comment;
+    return json;
+  },
+
+  /** Deleted by the author or removed by a moderator */
+  async remove(id: number) {
+    const resp = await fetch('/api/comment/' + id, {
+      method: 'DELETE',
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as Comment;
+    return json;
+  },
+
+  async violation(
+    id: number,
+    data: { reason: ViolationReason; comment?: string }
+  ) {
+    const resp = await fetch('/api/comment/' + id + '/violation', {
+      method: 'POST',
+      body: JSON.stringify(data),
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    return true;
+  }
+};
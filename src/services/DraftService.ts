@@ -0,0 +1,42 @@
+import { Draft } from '../../classes/Draft';
+import { getAuthHeaders } from '../utils/getAuthHeaders';
+import { ApiError } from '../utils/ApiError';
+
+export type DraftData = Pick<
+  Draft,
+  'id' | 'name' | 'content' | 'replies' | 'updatedAt'
+>;
+
+export default {
+  async all(token: string): Promise<Draft[]> {
+    const resp = await fetch('/api/draft', {
+      ...getAuthHeaders(token)
+    });
+    const json = (await resp.json()) as Draft[];
+    return json;
+  },
+
+  /** Resolve with the server version when it was changed later */
+  async save(draft: DraftData, token: string): Promise<Draft> {
+    const { id, name, content, replies, updatedAt } = draft;
+    const resp = await fetch('/api/draft/' + id, {
+      method: 'PUT',
+      body: JSON.stringify({ name, content, replies, updatedAt }),
+      ...getAuthHeaders(token)
+    });
+    if (!resp.ok && resp.status !== 409) {
+      throw new ApiError('draft-save', resp.statusText, resp.status);
+    }
+    const json = (await resp.json()) as Draft;
+    return json;
+  },
+
+  /** Leave the tombstone, so the other devices delete the draft too */
+  async remove(id: string, token: string, deletedAt: Date | string) {
+    await fetch('/api/draft/' + id, {
+      method: 'DELETE',
+      body: JSON.stringify({ deletedAt }),
+      ...getAuthHeaders(token)
+    });
+  }
+};
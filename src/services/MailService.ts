@@ -0,0 +1,26 @@
+import { MailPreferencesResponse, MailSettings } from '../interfaces';
+import { getAuthHeaders } from '../utils/getAuthHeaders';
+import { checkResponse } from '../utils/ApiError';
+import { appModule } from '../store/app';
+
+export default {
+  async preferences() {
+    const resp = await fetch('/api/mail/preferences', {
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as MailPreferencesResponse;
+    return json;
+  },
+
+  async setPreferences(data: Partial<MailSettings>) {
+    const resp = await fetch('/api/mail/preferences', {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as MailPreferencesResponse;
+    return json;
+  }
+};
@@ -0,0 +1,54 @@
+import { ModerationDecision } from '../../classes/ModerationDecision';
+import { Comment } from '../../classes/Comment';
+import {
+  CommentModerationAction,
+  CommentQueueResponse,
+  ModerationAction,
+  ModerationQueueResponse
+} from '../interfaces';
+import { getAuthHeaders } from '../utils/getAuthHeaders';
+import { getQueryString } from '../utils/getQueryString';
+import { checkResponse } from '../utils/ApiError';
+import { appModule } from '../store/app';
+
+export default {
+  async queue(opt: { limit?: number; offset?: number } = {}) {
+    const resp = await fetch('/api/moderation' + getQueryString(opt), {
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as ModerationQueueResponse;
+    return json;
+  },
+
+  async decide(storyId: string, action: ModerationAction, comment?: string) {
+    const resp = await fetch('/api/moderation/' + storyId, {
+      method: 'POST',
+      body: JSON.stringify({ action, comment }),
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as ModerationDecision;
+    return json;
+  },
+
+  async comments(opt: { limit?: number; offset?: number } = {}) {
+    const resp = await fetch('/api/moderation/comments' + getQueryString(opt), {
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as CommentQueueResponse;
+    return json;
+  },
+
+  async decideComment(id: number, action: CommentModerationAction) {
+    const resp = await fetch('/api/moderation/comments/' + id, {
+      method: 'POST',
+      body: JSON.stringify({ action }),
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as Comment;
+    return json;
+  }
+};
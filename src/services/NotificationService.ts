@@ -0,0 +1,61 @@
+import {
+  NotificationSettings,
+  NotificationsResponse,
+  NotificationUnreadResponse
+} from '../interfaces';
+import { getAuthHeaders } from '../utils/getAuthHeaders';
+import { getQueryString } from '../utils/getQueryString';
+import { checkResponse } from '../utils/ApiError';
+import { appModule } from '../store/app';
+
+export default {
+  async all(opt: { limit?: number; offset?: number } = {}) {
+    const resp = await fetch('/api/notifications' + getQueryString(opt), {
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as NotificationsResponse;
+    return json;
+  },
+
+  async unread() {
+    const resp = await fetch('/api/notifications/unread', {
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as NotificationUnreadResponse;
+    return json;
+  },
+
+  /** Mark the notifications as read, all of them without `ids` */
+  async read(ids?: number[]) {
+    const resp = await fetch('/api/notifications/read', {
+      method: 'POST',
+      body: JSON.stringify({ ids }),
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as NotificationUnreadResponse;
+    return json;
+  },
+
+  async preferences() {
+    const resp = await fetch('/api/notifications/preferences', {
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as NotificationSettings;
+    return json;
+  },
+
+  async setPreferences(data: Partial<NotificationSettings>) {
+    const resp = await fetch('/api/notifications/preferences', {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as NotificationSettings;
+    return json;
+  }
+};
@@ -1,17 +1,29 @@
 import {
+  GenerationParams,
   StoriesResponse,
   StoryResponse,
-  GetStoriesOptions
+  GetStoriesOptions,
+  ViolationReason,
+  Visibility
 } from '../interfaces';
 import { getQueryString } from '../utils/getQueryString';
 import { Story } from '../../classes/Story';
+import { StoryRevision } from '../../classes/StoryRevision';
 import { getAuthHeaders } from '@/utils/getAuthHeaders';
 import { appModule } from '../store/app';
+import { checkResponse } from '../utils/ApiError';
+import { getSessionId } from '../utils/getSessionId';
+
+type StoryEditData = Partial<Omit<Story, 'tags'>> & { tags?: string[] };
 
 export default {
-  async one(id: string) {
+  /** `editId` opens private stories and returns the edit link */
+  async one(id: string, editId?: string) {
     const token = appModule.token;
-    const resp = await fetch('/api/story/' + id, { ...getAuthHeaders(token) });
+    const query = editId ? getQueryString({ editId }) : '';
+    const resp = await fetch('/api/story/' + id + query, {
+      ...getAuthHeaders(token)
+    });
     const json = (await resp.json()) as StoryResponse;
     return json;
   },
@@ -48,13 +60,18 @@ export default {
     throw new Error('No user set');
   },
 
-  async violation(story: Story) {
+  async violation(
+    story: Story,
+    data: { reason: ViolationReason; comment?: string }
+  ) {
     const token = appModule.token;
 
-    await fetch('/api/story/' + story.id + '/violation', {
+    const resp = await fetch('/api/story/' + story.id + '/violation', {
       method: 'POST',
+      body: JSON.stringify(data),
       ...getAuthHeaders(token)
     });
+    await checkResponse(resp);
     return true;
   },
 
@@ -62,19 +79,63 @@ export default {
     data: {
       content: string;
       description?: string;
+      tags?: string[];
+      visibility?: Visibility;
+      generationSettings?: GenerationParams;
     },
     opt: { token?: string } = {}
   ) {
+    const { headers } = getAuthHeaders(opt.token);
+    headers['X-Session-Id'] = getSessionId();
     const resp = await fetch('/api/story', {
       method: 'POST',
       body: JSON.stringify(data),
-      ...getAuthHeaders(opt.token)
+      headers
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as StoryResponse;
+    return json;
+  },
+
+  async fork(
+    id: string,
+    data: {
+      content?: string;
+      description?: string;
+      tags?: string[];
+      visibility?: Visibility;
+      generationSettings?: GenerationParams;
+    },
+    opt: { token?: string } = {}
+  ) {
+    const { headers } = getAuthHeaders(opt.token);
+    headers['X-Session-Id'] = getSessionId();
+    const resp = await fetch('/api/story/' + id + '/fork', {
+      method: 'POST',
+      body: JSON.stringify(data),
+      headers
     });
+    await checkResponse(resp);
     const json = (await resp.json()) as StoryResponse;
     return json;
   },
 
-  async edit(id: string, data: Partial<Story>) {
+  async forks(id: string) {
+    const resp = await fetch('/api/story/' + id + '/forks');
+    const json = (await resp.json()) as StoriesResponse;
+    return json;
+  },
+
+  async revisions(id: string, editId?: string) {
+    const query = editId ? getQueryString({ editId }) : '';
+    const resp = await fetch('/api/story/' + id + '/revisions' + query, {
+      ...getAuthHeaders(appModule.token)
+    });
+    const json = (await resp.json()) as StoryRevision[];
+    return json;
+  },
+
+  async edit(id: string, data: StoryEditData) {
     const token = appModule.token;
     const resp = await fetch('/api/story/' + id, {
       method: 'PATCH',
@@ -83,5 +144,40 @@ export default {
     });
     const json = (await resp.json()) as StoryResponse;
     return json;
+  },
+
+  /** Move the story to the trash */
+  async remove(id: string, editId?: string) {
+    const query = editId ? getQueryString({ editId }) : '';
+    const resp = await fetch('/api/story/' + id + query, {
+      method: 'DELETE',
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as StoryResponse;
+    return json;
+  },
+
+  async restore(id: string, editId?: string) {
+    const query = editId ? getQueryString({ editId }) : '';
+    const resp = await fetch('/api/story/' + id + '/restore' + query, {
+      method: 'POST',
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as StoryResponse;
+    return json;
+  },
+
+  /** Attach anonymous stories to the logged in user, return claimed ids */
+  async claim(stories: { id: string; editId: string }[]) {
+    const resp = await fetch('/api/story/claim', {
+      method: 'POST',
+      body: JSON.stringify({ stories }),
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as { claimed: string[] };
+    return json.claimed;
   }
 };
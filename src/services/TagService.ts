@@ -0,0 +1,17 @@
+import { TagResponse } from '../interfaces';
+import { getQueryString } from '../utils/getQueryString';
+
+export default {
+  async all(opt: { query?: string; limit?: number } = {}) {
+    const params: Record<string, string | number> = {};
+    if (opt.query) {
+      params.query = opt.query;
+    }
+    if (opt.limit) {
+      params.limit = opt.limit;
+    }
+    const resp = await fetch('/api/tag' + getQueryString(params));
+    const json = (await resp.json()) as TagResponse[];
+    return json;
+  }
+};
@@ -2,6 +2,8 @@ import { getAuthHeaders } from '../utils/getAuthHeaders';
 import { User } from '../../classes/User';
 import { Like } from '../../classes/Like';
 import { appModule } from '../store/app';
+import { FeedUnreadResponse, FollowResponse, UserProfile } from '../interfaces';
+import { checkResponse } from '../utils/ApiError';
 
 export default {
   async getUser(token: string): Promise<User> {
@@ -19,10 +21,55 @@ export default {
       body: JSON.stringify(data),
       ...getAuthHeaders(token)
     });
+    await checkResponse(resp);
     const json = (await resp.json()) as User;
     return json;
   },
 
+  /** `id` is the user id or the username */
+  async profile(id: string | number) {
+    const resp = await fetch(
+      '/api/user/' + encodeURIComponent(String(id)) + '/public',
+      {
+        ...getAuthHeaders(appModule.token)
+      }
+    );
+    await checkResponse(resp);
+    const json = (await resp.json()) as UserProfile;
+    return json;
+  },
+
+  async follow(id: number, isFollowing = true) {
+    const resp = await fetch('/api/user/' + id + '/follow', {
+      method: isFollowing ? 'POST' : 'DELETE',
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as FollowResponse;
+    return json;
+  },
+
+  /** Number of the new stories in the feed of the followed authors */
+  async feedUnread() {
+    const resp = await fetch('/api/user/feed/unread', {
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as FeedUnreadResponse;
+    return json.count;
+  },
+
+  /** Mark the stories of the feed as seen */
+  async feedSeen() {
+    const resp = await fetch('/api/user/feed/seen', {
+      method: 'POST',
+      ...getAuthHeaders(appModule.token)
+    });
+    await checkResponse(resp);
+    const json = (await resp.json()) as FeedUnreadResponse;
+    return json.count;
+  },
+
   async getLikes(token: string): Promise<Like[]> {
     const resp = await fetch('/api/user/likes', {
       ...getAuthHeaders(token)
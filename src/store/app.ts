@@ -14,26 +14,59 @@ import {
   GetStoriesOptions,
   Period,
   FilterType,
-  SortType
+  SortType,
+  SearchIn,
+  GenerationSettings
 } from '../interfaces';
+import {
+  getGenerationParams,
+  normalizeGenerationSettings
+} from '../utils/generationSettings';
 
 import StoryService from '../services/StoryService';
 import UserService from '../services/UserService';
+import DraftService from '../services/DraftService';
+import {
+  LocalDraft,
+  getLocalDrafts,
+  putLocalDraft,
+  deleteLocalDraft,
+  isTombstoneExpired,
+  limitReplies,
+  putDraftTombstone
+} from '../utils/draftStorage';
+import { getEditId, getEditIds, rememberEditId } from '../utils/editIds';
+
+const GENERATION_SETTINGS_KEY = 'generationSettings';
+
+function loadGenerationSettings(): GenerationSettings {
+  let stored: unknown;
+  try {
+    stored = JSON.parse(localStorage.getItem(GENERATION_SETTINGS_KEY) || '');
+  } catch (er) {
+    // no saved settings
+  }
+  return normalizeGenerationSettings(stored);
+}
 
 @Module({ dynamic: true, store: store, name: 'catalog' })
 class AppStore extends VuexModule {
   stories: StoryResponse[] = [];
+  nextCursor: string | null = null;
+  seed = '';
   story: StoryResponse | false = false;
-  // hasMore = false;
   user: User | false = false;
   token: string | false = false;
   liked: string[] = [];
   replies: string[] = [];
+  generationSettings: GenerationSettings = loadGenerationSettings();
+  drafts: LocalDraft[] = [];
 
   sort: SortType = 'random';
   filter: FilterType = 'all';
   period: Period = 'month';
   query = '';
+  searchIn: SearchIn = 'all';
   tags: string[] = [];
 
   @MutationAction({ mutate: ['sort'] })
@@ -61,7 +94,12 @@ class AppStore extends VuexModule {
     return { query };
   }
 
-  @Action({ commit: 'SET_STORIES' })
+  @MutationAction({ mutate: ['searchIn'] })
+  async setSearchIn(searchIn: SearchIn) {
+    return { searchIn };
+  }
+
+  @Action
   async fetchStories(opt?: GetStoriesOptions) {
     const resp = await StoryService.all(opt);
     // @ts-ignore
@@ -74,8 +112,19 @@ class AppStore extends VuexModule {
         }
       });
     }
+    this.context.commit('SET_STORIES', stories);
+    this.context.commit('SET_NEXT_CURSOR', resp.nextCursor || null);
+    if (resp.seed) {
+      this.context.commit('SET_SEED', resp.seed);
+    }
+    return resp;
+  }
 
-    return stories;
+  @Action
+  async resetStories() {
+    this.context.commit('SET_STORIES', []);
+    this.context.commit('SET_NEXT_CURSOR', null);
+    this.context.commit('SET_SEED', '');
   }
 
   @MutationAction({ mutate: ['stories'] })
@@ -129,27 +178,165 @@ class AppStore extends VuexModule {
 
   @Action({ commit: 'SET_USER' })
   async setUser(user: User | false) {
+    if (user && user.generationSettings) {
+      const settings = normalizeGenerationSettings(user.generationSettings);
+      localStorage.setItem(GENERATION_SETTINGS_KEY, JSON.stringify(settings));
+      this.context.commit('SET_GENERATION_SETTINGS', settings);
+    }
     return user;
   }
 
+  /** Remember in the browser and in the profile of the logged in user */
+  @Action({ commit: 'SET_GENERATION_SETTINGS' })
+  async setGenerationSettings(settings: GenerationSettings) {
+    settings = normalizeGenerationSettings(settings);
+    localStorage.setItem(GENERATION_SETTINGS_KEY, JSON.stringify(settings));
+    if (this.user) {
+      try {
+        await UserService.edit(String(this.user.id), {
+          generationSettings: settings
+        });
+      } catch (er) {
+        // the settings are still kept locally
+      }
+    }
+    return settings;
+  }
+
   @Action({ commit: 'SET_TOKEN' })
   async setToken(token: string | false) {
     return token;
   }
 
-  @Action({ commit: 'SET_STORY' })
+  @Action({ commit: 'SET_STORY', rawError: true })
   async createStory(scheme: Scheme) {
     const content = JSON.stringify(scheme);
+    const generationSettings = getGenerationParams(this.generationSettings);
     const story = await StoryService.create(
-      { content },
+      { content, generationSettings },
       { token: this.token || '' }
     );
+    rememberEditId(story.id, story.editId);
     return story;
   }
 
+  @Action({ commit: 'SET_STORY', rawError: true })
+  async forkStory(opt: { parentId: string; scheme: Scheme }) {
+    const content = JSON.stringify(opt.scheme);
+    const generationSettings = getGenerationParams(this.generationSettings);
+    const story = await StoryService.fork(
+      opt.parentId,
+      { content, generationSettings },
+      { token: this.token || '' }
+    );
+    rememberEditId(story.id, story.editId);
+    return story;
+  }
+
+  /** Give the stories created before login to the user */
+  @Action
+  async claimStories() {
+    const editIds = getEditIds();
+    const stories = Object.keys(editIds).map(id => ({
+      id,
+      editId: editIds[id]
+    }));
+    if (this.token && stories.length) {
+      try {
+        await StoryService.claim(stories);
+      } catch (er) {
+        // tried again with the next login
+      }
+    }
+  }
+
+  /**
+   * Read the drafts of this browser and merge them with the account ones.
+   * The latest change wins, the deletions are kept as tombstones.
+   */
+  @Action({ commit: 'SET_DRAFTS' })
+  async loadDrafts() {
+    let drafts: LocalDraft[];
+    try {
+      drafts = await getLocalDrafts();
+    } catch (er) {
+      // IndexedDB is not available, keep the drafts of this page only
+      drafts = [...this.drafts];
+    }
+    const expired = drafts.filter(x => isTombstoneExpired(x));
+    for (const draft of expired) {
+      await deleteLocalDraft(draft.id).catch(() => undefined);
+    }
+    drafts = drafts.filter(x => !expired.includes(x));
+    const time = (x: { updatedAt: Date | string }) =>
+      new Date(x.updatedAt).getTime();
+    if (this.token) {
+      try {
+        const remote = await DraftService.all(this.token);
+        const remoteById = new Map(remote.map(x => [x.id, x]));
+        const merged = new Map(drafts.map(x => [x.id, x]));
+        for (const draft of remote) {
+          const local = merged.get(draft.id);
+          if (!local || time(draft) > time(local)) {
+            // the local undo history belongs to the older text
+            merged.set(draft.id, draft);
+            await putLocalDraft(draft).catch(() => undefined);
+          }
+        }
+        for (const draft of drafts) {
+          const saved = remoteById.get(draft.id);
+          if (saved && time(draft) <= time(saved)) {
+            continue;
+          }
+          if (draft.deletedAt) {
+            await DraftService.remove(draft.id, this.token, draft.deletedAt);
+          } else {
+            await DraftService.save(draft, this.token);
+          }
+        }
+        drafts = [...merged.values()];
+      } catch (er) {
+        // synced on the next load
+      }
+    }
+    return drafts.filter(x => !x.deletedAt).sort((a, b) => time(b) - time(a));
+  }
+
+  @Action({ commit: 'SET_DRAFTS' })
+  async saveDraft(draft: LocalDraft) {
+    draft = { ...draft, replies: limitReplies(draft.replies) };
+    try {
+      await putLocalDraft(draft);
+    } catch (er) {
+      // still kept in the store until the page is closed
+    }
+    if (this.token) {
+      DraftService.save(draft, this.token).catch(() => {
+        // synced on the next load
+      });
+    }
+    return [draft, ...this.drafts.filter(x => x.id !== draft.id)];
+  }
+
+  @Action({ commit: 'SET_DRAFTS' })
+  async removeDraft(id: string) {
+    const deletedAt = new Date();
+    try {
+      await putDraftTombstone(id, deletedAt);
+    } catch (er) {
+      //
+    }
+    if (this.token) {
+      await DraftService.remove(id, this.token, deletedAt).catch(
+        () => undefined
+      );
+    }
+    return this.drafts.filter(x => x.id !== id);
+  }
+
   @Action({ commit: 'SET_STORY' })
   async getStory(id: string) {
-    const story = await StoryService.one(id);
+    const story = await StoryService.one(id, getEditId(id));
     return story;
   }
 
@@ -212,6 +399,26 @@ class AppStore extends VuexModule {
     this.stories = stories;
   }
 
+  @Mutation
+  protected SET_NEXT_CURSOR(nextCursor: string | null) {
+    this.nextCursor = nextCursor;
+  }
+
+  @Mutation
+  protected SET_SEED(seed: string) {
+    this.seed = seed;
+  }
+
+  @Mutation
+  protected SET_GENERATION_SETTINGS(generationSettings: GenerationSettings) {
+    this.generationSettings = generationSettings;
+  }
+
+  @Mutation
+  protected SET_DRAFTS(drafts: LocalDraft[]) {
+    this.drafts = drafts;
+  }
+
   @Mutation
   protected SET_USER(user: User | false) {
     this.user = user;
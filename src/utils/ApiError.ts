@@ -0,0 +1,21 @@
+export class ApiError extends Error {
+  constructor(readonly code: string, message: string, readonly status = 0) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export async function checkResponse(resp: Response) {
+  if (!resp.ok) {
+    let code = 'unknown';
+    let message = resp.statusText;
+    try {
+      const json = await resp.json();
+      code = json.code || code;
+      message = json.message || message;
+    } catch (er) {
+      //
+    }
+    throw new ApiError(code, message, resp.status);
+  }
+}
@@ -0,0 +1,78 @@
+export interface EditorHistoryState<T> {
+  undo: T[];
+  redo: T[];
+}
+
+/**
+ * Undo/redo stack of editor snapshots.
+ * The last item of the undo stack is the current state.
+ */
+export class EditorHistory<T> {
+  undoStack: T[] = [];
+  redoStack: T[] = [];
+
+  constructor(
+    private readonly limit = 100,
+    private readonly isEqual: (a: T, b: T) => boolean = (a, b) =>
+      JSON.stringify(a) === JSON.stringify(b)
+  ) {}
+
+  get current(): T | undefined {
+    return this.undoStack[this.undoStack.length - 1];
+  }
+
+  get canUndo() {
+    return this.undoStack.length > 1;
+  }
+
+  get canRedo() {
+    return this.redoStack.length > 0;
+  }
+
+  /** Add a new step, the undone steps can not be redone after it */
+  push(item: T) {
+    const current = this.current;
+    if (current !== undefined && this.isEqual(current, item)) {
+      return;
+    }
+    this.undoStack = [...this.undoStack, item].slice(-this.limit);
+    this.redoStack = [];
+  }
+
+  /** Go one step back and return the state to show */
+  undo(): T | undefined {
+    if (!this.canUndo) {
+      return;
+    }
+    const undoStack = [...this.undoStack];
+    const item = undoStack.pop() as T;
+    this.undoStack = undoStack;
+    this.redoStack = [...this.redoStack, item];
+    return this.current;
+  }
+
+  redo(): T | undefined {
+    if (!this.canRedo) {
+      return;
+    }
+    const redoStack = [...this.redoStack];
+    const item = redoStack.pop() as T;
+    this.redoStack = redoStack;
+    this.undoStack = [...this.undoStack, item];
+    return item;
+  }
+
+  reset(item?: T) {
+    this.undoStack = item === undefined ? [] : [item];
+    this.redoStack = [];
+  }
+
+  toJSON(): EditorHistoryState<T> {
+    return { undo: this.undoStack, redo: this.redoStack };
+  }
+
+  load(state: EditorHistoryState<T>) {
+    this.undoStack = state.undo.slice(-this.limit);
+    this.redoStack = state.redo.slice(-this.limit);
+  }
+}
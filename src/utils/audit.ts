@@ -0,0 +1,44 @@
+import { AuditAction, AuditTargetType } from '../interfaces';
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  'story:ban',
+  'story:unban',
+  'story:hide',
+  'story:unhide',
+  'story:visibility',
+  'story:delete',
+  'story:restore',
+  'user:ban',
+  'user:unban',
+  'user:role',
+  'user:delete',
+  'comment:remove'
+];
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'story:ban': 'Блокировка истории',
+  'story:unban': 'Разблокировка истории',
+  'story:hide': 'Скрытие истории',
+  'story:unhide': 'Возврат истории в галерею',
+  'story:visibility': 'Изменение доступа к истории',
+  'story:delete': 'Удаление истории',
+  'story:restore': 'Восстановление истории',
+  'user:ban': 'Блокировка пользователя',
+  'user:unban': 'Разблокировка пользователя',
+  'user:role': 'Изменение роли',
+  'user:delete': 'Удаление пользователя',
+  'comment:remove': 'Удаление комментария'
+};
+
+export const AUDIT_TARGET_TYPES: AuditTargetType[] = [
+  'story',
+  'user',
+  'comment'
+];
+
+/** The events that can be undone from the audit log */
+export const REVERSIBLE_AUDIT_ACTIONS: AuditAction[] = [
+  'story:ban',
+  'story:hide',
+  'user:ban'
+];
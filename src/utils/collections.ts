@@ -0,0 +1,3 @@
+export const MAX_COLLECTION_TITLE_LENGTH = 100;
+export const MAX_COLLECTION_DESCRIPTION_LENGTH = 500;
+export const MAX_COLLECTION_STORIES = 500;
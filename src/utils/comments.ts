@@ -0,0 +1,25 @@
+import { Comment } from '../../classes/Comment';
+
+export const MAX_COMMENT_LENGTH = 2000;
+
+export interface CommentNode {
+  comment: Comment;
+  answers: CommentNode[];
+}
+
+/** Thread of the comments, the answers of a deleted parent go to the root */
+export function buildCommentTree(comments: Comment[]): CommentNode[] {
+  const nodes = new Map<number, CommentNode>();
+  comments.forEach(x => nodes.set(x.id, { comment: x, answers: [] }));
+  const roots: CommentNode[] = [];
+  comments.forEach(x => {
+    const node = nodes.get(x.id) as CommentNode;
+    const parent = x.parentId ? nodes.get(x.parentId) : undefined;
+    if (parent) {
+      parent.answers.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+  return roots;
+}
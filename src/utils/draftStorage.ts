@@ -0,0 +1,153 @@
+import { Draft } from '../../classes/Draft';
+import { EditorStep, RepliesState, Scheme } from '../interfaces';
+import { EditorHistoryState } from './EditorHistory';
+
+/** Draft kept in the browser, the history is not sent to the server */
+export type LocalDraft = Omit<Draft, 'user' | 'userId'> & {
+  history?: EditorHistoryState<EditorStep>;
+};
+
+const DB_NAME = 'porfirevich';
+const STORE = 'drafts';
+
+/** Reply sets kept in a draft, the older regenerations are dropped */
+export const MAX_DRAFT_REPLY_SETS = 5;
+export const MAX_DRAFT_REPLIES = 10;
+export const MAX_DRAFT_REPLY_LENGTH = 2000;
+/** Days to keep the deletions to sync them to the other devices */
+export const DRAFT_TOMBSTONE_DAYS = 30;
+
+let db: Promise<IDBDatabase> | undefined;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!db) {
+    db = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not supported'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    db.catch(() => {
+      db = undefined;
+    });
+  }
+  return db;
+}
+
+async function run<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const database = await openDb();
+  return new Promise((resolve, reject) => {
+    const store = database.transaction(STORE, mode).objectStore(STORE);
+    const request = action(store);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Drafts of this browser, the last changed first */
+export async function getLocalDrafts(): Promise<LocalDraft[]> {
+  const drafts = await run<LocalDraft[]>('readonly', x => x.getAll());
+  return drafts.sort(
+    (a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+  );
+}
+
+export async function putLocalDraft(draft: LocalDraft) {
+  await run('readwrite', x => x.put(draft));
+}
+
+export async function deleteLocalDraft(id: string) {
+  await run('readwrite', x => x.delete(id));
+}
+
+/** Local drafts, the deleted ones are kept as tombstones with `deletedAt` */
+export async function putDraftTombstone(id: string, deletedAt = new Date()) {
+  const now = new Date();
+  await putLocalDraft({
+    id,
+    name: '',
+    content: '',
+    replies: null,
+    createdAt: now,
+    updatedAt: deletedAt,
+    deletedAt
+  });
+}
+
+/** The tombstone is old enough, every device has synced it */
+export function isTombstoneExpired(draft: Pick<Draft, 'deletedAt'>) {
+  return (
+    !!draft.deletedAt &&
+    Date.now() - new Date(draft.deletedAt).getTime() >
+      DRAFT_TOMBSTONE_DAYS * 24 * 60 * 60 * 1000
+  );
+}
+
+/**
+ * Keep the last reply sets only, `null` when `replies` is not
+ * a valid state. The shown set stays selected when it is kept.
+ */
+export function limitReplies(replies: unknown): RepliesState | null {
+  const state = replies as RepliesState;
+  if (
+    !state ||
+    typeof state !== 'object' ||
+    !Array.isArray(state.sets) ||
+    !state.sets.every(x => Array.isArray(x))
+  ) {
+    return null;
+  }
+  const dropped = Math.max(0, state.sets.length - MAX_DRAFT_REPLY_SETS);
+  const sets = state.sets.slice(dropped).map(x =>
+    x
+      .filter(y => typeof y === 'string')
+      .slice(0, MAX_DRAFT_REPLIES)
+      .map(y => y.slice(0, MAX_DRAFT_REPLY_LENGTH))
+  );
+  if (!sets.length) {
+    return null;
+  }
+  const setIndex = Number(state.setIndex) - dropped;
+  if (!(setIndex >= 0 && setIndex < sets.length)) {
+    return { sets, setIndex: sets.length - 1, index: 0 };
+  }
+  const index = Number(state.index);
+  return {
+    sets,
+    setIndex,
+    index: index >= 0 && index < sets[setIndex].length ? index : 0
+  };
+}
+
+export function generateDraftId() {
+  return (
+    Date.now().toString(36) +
+    Math.random()
+      .toString(36)
+      .slice(2, 10)
+  );
+}
+
+/** Text of the draft start to show when it has no name */
+export function getDraftTitle(draft: Pick<Draft, 'name' | 'content'>) {
+  if (draft.name) {
+    return draft.name;
+  }
+  let text = '';
+  try {
+    text = (JSON.parse(draft.content) as Scheme).map(x => x[0]).join('');
+  } catch (er) {
+    //
+  }
+  text = text.trim().replace(/\s+/g, ' ');
+  return text.length > 60 ? text.slice(0, 60) + '…' : text || 'Без названия';
+}
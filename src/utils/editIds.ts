@@ -0,0 +1,24 @@
+/**
+ * Secret `editId` of the stories created in this browser.
+ * They let anonymous authors manage their stories and claim them after login.
+ */
+const EDIT_IDS_KEY = 'storyEditIds';
+
+export function getEditIds(): Record<string, string> {
+  try {
+    const editIds = JSON.parse(localStorage.getItem(EDIT_IDS_KEY) || '{}');
+    return editIds && typeof editIds === 'object' ? editIds : {};
+  } catch (er) {
+    return {};
+  }
+}
+
+export function getEditId(storyId: string): string | undefined {
+  return getEditIds()[storyId];
+}
+
+export function rememberEditId(storyId: string, editId: string) {
+  const editIds = getEditIds();
+  editIds[storyId] = editId;
+  localStorage.setItem(EDIT_IDS_KEY, JSON.stringify(editIds));
+}
@@ -0,0 +1,58 @@
+import { GenerationParams, GenerationSettings } from '../interfaces';
+
+export interface SettingLimit {
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+}
+
+export const GENERATION_LIMITS: Record<
+  keyof GenerationSettings,
+  SettingLimit
+> = {
+  length: { min: 1, max: 60, step: 1, default: 30 },
+  temperature: { min: 0.1, max: 2, step: 0.1, default: 1 },
+  topK: { min: 0, max: 100, step: 1, default: 40 },
+  topP: { min: 0.1, max: 1, step: 0.05, default: 0.9 },
+  numSamples: { min: 1, max: 5, step: 1, default: 3 },
+  interval: { min: 1, max: 10, step: 1, default: 1 }
+};
+
+/**
+ * Take known settings from `value` clamped to the limits,
+ * the missing ones are replaced with defaults.
+ */
+export function normalizeGenerationSettings(
+  value: unknown
+): GenerationSettings {
+  const obj = (value && typeof value === 'object' ? value : {}) as Record<
+    string,
+    unknown
+  >;
+  const settings = {} as GenerationSettings;
+  (Object.keys(GENERATION_LIMITS) as (keyof GenerationSettings)[]).forEach(
+    key => {
+      const limit = GENERATION_LIMITS[key];
+      const num =
+        typeof obj[key] === 'number' || typeof obj[key] === 'string'
+          ? Number(obj[key])
+          : NaN;
+      settings[key] = isFinite(num)
+        ? Math.min(Math.max(num, limit.min), limit.max)
+        : limit.default;
+      if (limit.step === 1) {
+        settings[key] = Math.round(settings[key]);
+      }
+    }
+  );
+  return settings;
+}
+
+/** Settings that are sent to the generation backend */
+export function getGenerationParams(
+  settings: GenerationSettings
+): GenerationParams {
+  const { length, temperature, topK, topP, numSamples } = settings;
+  return { length, temperature, topK, topP, numSamples };
+}
@@ -0,0 +1,15 @@
+/**
+ * Random id of this browser to bind the generated replies to an anonymous user
+ */
+export function getSessionId(): string {
+  let sessionId = localStorage.getItem('sessionId');
+  if (!sessionId) {
+    sessionId =
+      Date.now().toString(36) +
+      Math.random()
+        .toString(36)
+        .slice(2);
+    localStorage.setItem('sessionId', sessionId);
+  }
+  return sessionId;
+}
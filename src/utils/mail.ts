@@ -0,0 +1,9 @@
+import { MailKind } from '../interfaces';
+
+export const MAIL_KINDS: MailKind[] = ['digest', 'likes', 'moderation'];
+
+export const MAIL_KIND_LABELS: Record<MailKind, string> = {
+  digest: 'Лучшие истории недели',
+  likes: 'Лайки моих историй',
+  moderation: 'Решения модераторов'
+};
@@ -0,0 +1,52 @@
+import { AuditEvent } from '../../classes/AuditEvent';
+import { ModerationAction, ViolationReason } from '../interfaces';
+
+export const VIOLATION_REASONS: ViolationReason[] = [
+  'spam',
+  'offensive',
+  'illegal',
+  'personal-data',
+  'other'
+];
+
+export const VIOLATION_REASON_LABELS: Record<ViolationReason, string> = {
+  spam: 'Спам или реклама',
+  offensive: 'Оскорбления или травля',
+  illegal: 'Запрещённый законом контент',
+  'personal-data': 'Личные данные',
+  other: 'Другое'
+};
+
+/** The actions a moderator can choose */
+export const MODERATION_ACTIONS: ModerationAction[] = [
+  'dismiss',
+  'hide',
+  'ban-story',
+  'ban-author'
+];
+
+export const MODERATION_ACTION_LABELS: Record<ModerationAction, string> = {
+  dismiss: 'Отклонить жалобы',
+  hide: 'Скрыть из галереи',
+  'ban-story': 'Заблокировать историю',
+  'ban-author': 'Заблокировать автора',
+  'auto-hide': 'Скрыта автоматически'
+};
+
+export const MAX_VIOLATION_COMMENT_LENGTH = 500;
+
+export const MAX_APPEAL_LENGTH = 1000;
+
+/** Reasons of the automatic bans */
+export const BAN_REASON_LABELS: Record<string, string> = {
+  duplicates: 'Одна и та же история сохранена слишком много раз'
+};
+
+/** The moderator comment or the automatic ban reason */
+export function getBanReason(event: AuditEvent): string {
+  const details = event.details || {};
+  if (typeof details.comment === 'string') {
+    return details.comment;
+  }
+  return BAN_REASON_LABELS[details.reason as string] || '';
+}
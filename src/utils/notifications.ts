@@ -0,0 +1,57 @@
+import { Notification } from '../../classes/Notification';
+import { NotificationType } from '../interfaces';
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  'like',
+  'comment',
+  'fork',
+  'follow',
+  'moderation'
+];
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  like: 'Лайки',
+  comment: 'Комментарии и ответы',
+  fork: 'Продолжения историй',
+  follow: 'Новые подписчики',
+  moderation: 'Решения модераторов'
+};
+
+const MODERATION_TEXTS: Record<string, string> = {
+  hide: 'Модератор скрыл вашу историю из галереи.',
+  'auto-hide': 'Ваша история скрыта из галереи по жалобам читателей.',
+  ban: 'Модератор заблокировал вашу историю.',
+  'ban-author': 'Модератор заблокировал вашу историю.',
+  'comment:remove': 'Модератор удалил ваш комментарий.'
+};
+
+export function getNotificationText(notification: Notification) {
+  const actor = notification.actor;
+  const name = actor ? actor.displayName || actor.username : 'Кто-то';
+  const details = notification.details || {};
+  switch (notification.type) {
+    case 'like':
+      return `${name} лайкнул(а) вашу историю.`;
+    case 'comment':
+      return details.reply
+        ? `${name} ответил(а) на ваш комментарий.`
+        : `${name} прокомментировал(а) вашу историю.`;
+    case 'fork':
+      return `${name} продолжил(а) вашу историю.`;
+    case 'follow':
+      return `${name} подписался(ась) на вас.`;
+    case 'moderation':
+      return (
+        MODERATION_TEXTS[details.action as string] ||
+        'Модератор принял решение по вашей истории.'
+      );
+  }
+}
+
+/** Where the notification leads */
+export function getNotificationLink(notification: Notification) {
+  if (notification.storyId) {
+    return '/' + notification.storyId;
+  }
+  return notification.actorId ? '/u/' + notification.actorId : '';
+}
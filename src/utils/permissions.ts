@@ -0,0 +1,72 @@
+import { Role } from '../interfaces';
+
+export type Permission =
+  | 'story:create'
+  | 'story:like'
+  | 'story:report'
+  | 'comment:create'
+  /** Follow the authors and read the feed */
+  | 'user:follow'
+  /** Make the reading lists */
+  | 'collection:create'
+  /** Edit, hide and publish any story */
+  | 'story:manage'
+  /** See the authors and reports of the stories */
+  | 'story:moderate'
+  | 'user:ban'
+  /** Edit and delete any user */
+  | 'user:manage'
+  | 'user:set-role'
+  /** Read the audit log and reverse the bans from it */
+  | 'audit:manage';
+
+export const ROLES: Role[] = ['reader', 'author', 'moderator', 'admin'];
+
+/** Not logged in users */
+const guestPermissions: Permission[] = ['story:create', 'story:report'];
+
+const readerPermissions: Permission[] = [
+  'story:like',
+  'story:report',
+  'comment:create',
+  'user:follow',
+  'collection:create'
+];
+
+const authorPermissions: Permission[] = [...readerPermissions, 'story:create'];
+
+const moderatorPermissions: Permission[] = [
+  ...authorPermissions,
+  'story:manage',
+  'story:moderate',
+  'user:ban'
+];
+
+export const PERMISSIONS: Record<Role, Permission[]> = {
+  reader: readerPermissions,
+  author: authorPermissions,
+  moderator: moderatorPermissions,
+  admin: [
+    ...moderatorPermissions,
+    'user:manage',
+    'user:set-role',
+    'audit:manage'
+  ]
+};
+
+interface UserWithRole {
+  role?: Role | null;
+  isSuperuser?: boolean;
+}
+
+export function getRole(user: UserWithRole): Role {
+  return user.role || (user.isSuperuser ? 'admin' : 'author');
+}
+
+export function can(
+  user: UserWithRole | false | null | undefined,
+  permission: Permission
+): boolean {
+  const permissions = user ? PERMISSIONS[getRole(user)] : guestPermissions;
+  return permissions.includes(permission);
+}
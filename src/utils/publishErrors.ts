@@ -0,0 +1,11 @@
+/** Messages of the rejected stories by the error code */
+export const PUBLISH_ERRORS: Record<string, string> = {
+  unverified:
+    'Обнаружены недопустимые модификации дополнений Порфирьевича. Публикация истории отменена.',
+  'fork-prefix': 'Продолжение должно начинаться с исходной истории.',
+  'rate-limited': 'Слишком много историй. Попробуйте опубликовать позже.',
+  'banned-words': 'История содержит запрещённые слова.',
+  'link-spam': 'В истории слишком много ссылок.',
+  'low-user-text': 'Допишите историю: почти весь текст создан Порфирьевичем.',
+  duplicate: 'Такая история уже опубликована.'
+};
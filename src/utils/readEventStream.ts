@@ -0,0 +1,51 @@
+export type EventCallback = (event: string, data: unknown) => void;
+
+function parseEvent(chunk: string, onEvent: EventCallback) {
+  let event = 'message';
+  const data: string[] = [];
+  chunk.split('\n').forEach(line => {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).trim());
+    }
+  });
+  if (data.length) {
+    onEvent(event, JSON.parse(data.join('\n')));
+  }
+}
+
+/**
+ * Read server-sent events with JSON data from the fetch response.
+ * Events come as soon as they are received where the browser supports
+ * response streams, otherwise all at once when the response ends.
+ * The reader is cancelled when the callback throws or the request is aborted.
+ */
+export async function readEventStream(resp: Response, onEvent: EventCallback) {
+  if (!resp.body || typeof TextDecoder === 'undefined') {
+    const text = await resp.text();
+    text.split('\n\n').forEach(x => parseEvent(x, onEvent));
+    return;
+  }
+  const reader = resp.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true });
+      const chunks = buffer.split('\n\n');
+      buffer = chunks.pop() || '';
+      chunks.forEach(x => parseEvent(x, onEvent));
+    }
+    parseEvent(buffer, onEvent);
+  } finally {
+    // release the stream when it is aborted or the callback throws
+    reader.cancel().catch(() => {
+      //
+    });
+  }
+}
@@ -0,0 +1,44 @@
+import { Period } from '../interfaces';
+
+/** Sort options of the story lists for everyone */
+export const SORT_ITEMS = [
+  { text: 'Случайный порядок', value: 'random' },
+  { text: 'Популярные', value: 'likesCount' },
+  { text: 'Новые', value: 'new' }
+];
+
+export const PERIOD_ITEMS = [
+  { text: 'всё время', value: 'all' },
+  {
+    text: 'полгода',
+    value: '6-months'
+  },
+  { text: 'месяц', value: 'month' },
+  { text: 'неделю', value: 'week' }
+];
+
+/** The earliest date of the stories of the period, `null` for all time */
+export function getPeriodStart(period: Period): Date | null {
+  const today = new Date();
+  switch (period) {
+    case 'week':
+      return new Date(today.getTime() - 7 * 24 * 60 * 60 * 1000);
+    case 'month':
+      return new Date(today.getFullYear(), today.getMonth() - 1, 1);
+    case '6-months':
+      return new Date(today.getFullYear(), today.getMonth() - 6, 1);
+    default:
+      return null;
+  }
+}
+
+/** `orderBy` of the stories request for the sort option */
+export function getOrderBy(sort: string) {
+  const orderBy: string[] = [];
+  if (sort === 'random') {
+    orderBy.push('RAND()');
+  } else if (sort && sort !== 'new') {
+    orderBy.push(sort);
+  }
+  return orderBy;
+}
@@ -0,0 +1,147 @@
+import { Component, Vue, Watch } from 'vue-property-decorator';
+import { ToastProgrammatic as Toast } from 'buefy';
+
+import { AuditEvent } from '../../../classes/AuditEvent';
+import { appModule } from '../../store/app';
+import {
+  AuditAction,
+  AuditTargetType,
+  GetAuditEventsOptions
+} from '../../interfaces';
+import AuditService from '../../services/AuditService';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ACTION_LABELS,
+  REVERSIBLE_AUDIT_ACTIONS
+} from '../../utils/audit';
+import { can } from '../../utils/permissions';
+
+@Component
+export default class Audit extends Vue {
+  events: AuditEvent[] = [];
+  nextCursor: string | null = null;
+  isLoading = false;
+  reversing = 0;
+
+  filters = {
+    action: '' as AuditAction | '',
+    targetType: '' as AuditTargetType | '',
+    targetId: '',
+    actorId: ''
+  };
+
+  get user() {
+    return appModule.user;
+  }
+
+  get canManage() {
+    return can(this.user, 'audit:manage');
+  }
+
+  get actions() {
+    return AUDIT_ACTIONS.map(value => ({
+      value,
+      text: AUDIT_ACTION_LABELS[value]
+    }));
+  }
+
+  @Watch('user')
+  onUserChange() {
+    this.load();
+  }
+
+  mounted() {
+    this.load();
+  }
+
+  actorName(event: AuditEvent) {
+    if (event.actor) {
+      return event.actor.username;
+    }
+    // the deleted users leave the id only
+    return event.actorId ? String(event.actorId) : 'система';
+  }
+
+  actionLabel(event: AuditEvent) {
+    return AUDIT_ACTION_LABELS[event.action] || event.action;
+  }
+
+  targetLink(event: AuditEvent) {
+    return event.targetType === 'story' ? '/' + event.targetId : '';
+  }
+
+  detailsText(event: AuditEvent) {
+    const details = event.details;
+    if (!details) {
+      return '';
+    }
+    return Object.keys(details)
+      .map(k => `${k}: ${details[k]}`)
+      .join(', ');
+  }
+
+  date(value: Date | string) {
+    return new Date(value).toLocaleString('ru');
+  }
+
+  isReversible(event: AuditEvent) {
+    return (
+      !event.reversedById && REVERSIBLE_AUDIT_ACTIONS.includes(event.action)
+    );
+  }
+
+  async load(more = false) {
+    if (!this.canManage) {
+      this.events = [];
+      return;
+    }
+    const opt: GetAuditEventsOptions = {};
+    const { action, targetType, targetId, actorId } = this.filters;
+    if (action) {
+      opt.action = action;
+    }
+    if (targetType) {
+      opt.targetType = targetType;
+    }
+    if (targetId.trim()) {
+      opt.targetId = targetId.trim();
+    }
+    if (Number(actorId)) {
+      opt.actorId = Number(actorId);
+    }
+    if (more && this.nextCursor) {
+      opt.cursor = this.nextCursor;
+    }
+    this.isLoading = true;
+    try {
+      const resp = await AuditService.all(opt);
+      this.events = more ? [...this.events, ...resp.data] : resp.data;
+      this.nextCursor = resp.nextCursor;
+    } catch (er) {
+      Toast.open({
+        message: 'Не удалось загрузить журнал.',
+        type: 'is-danger',
+        position: 'is-bottom'
+      });
+    } finally {
+      this.isLoading = false;
+    }
+  }
+
+  async reverse(event: AuditEvent) {
+    this.reversing = event.id;
+    try {
+      await AuditService.reverse(event.id);
+      // the reversal is a new event on the top
+      await this.load();
+    } catch (er) {
+      Toast.open({
+        message: 'Не удалось отменить действие.',
+        type: 'is-danger',
+        position: 'is-bottom'
+      });
+    } finally {
+      this.reversing = 0;
+    }
+  }
+}
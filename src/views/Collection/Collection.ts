@@ -0,0 +1,186 @@
+import { Component, Prop, Vue, Watch } from 'vue-property-decorator';
+import {
+  DialogProgrammatic as Dialog,
+  ToastProgrammatic as Toast
+} from 'buefy';
+
+import { Story } from '../../../classes/Story';
+import { CollectionResponse, StoryResponse } from '../../interfaces';
+import CollectionService from '../../services/CollectionService';
+import StoryItem from '../../components/StoryItem/StoryItem.vue';
+import { SITE } from '../../config';
+import { copyToClipboard } from '../../utils/copyToClipboard';
+import {
+  MAX_COLLECTION_DESCRIPTION_LENGTH,
+  MAX_COLLECTION_TITLE_LENGTH
+} from '../../utils/collections';
+
+@Component({
+  components: {
+    StoryItem,
+    Share: () =>
+      import(/* webpackChunkName: "share" */ '../../components/Share/Share.vue')
+  }
+})
+export default class Collection extends Vue {
+  @Prop({ type: String }) readonly id!: string;
+
+  collection: CollectionResponse | false = false;
+  notFound = false;
+
+  isEditing = false;
+  isSaving = false;
+  form = { title: '', description: '', isPublic: false };
+  /** Story id being moved or removed */
+  changing = '';
+
+  isShareModalActive = false;
+  story: Story | false = false;
+
+  get shareUrl() {
+    return `${SITE}/c/${this.id}`;
+  }
+
+  get author() {
+    const user = this.collection && this.collection.user;
+    return user ? user.displayName || user.username : '';
+  }
+
+  get maxTitleLength() {
+    return MAX_COLLECTION_TITLE_LENGTH;
+  }
+
+  get maxDescriptionLength() {
+    return MAX_COLLECTION_DESCRIPTION_LENGTH;
+  }
+
+  @Watch('id')
+  onIdChange() {
+    this.load();
+  }
+
+  mounted() {
+    this.load();
+  }
+
+  async load() {
+    this.collection = false;
+    this.notFound = false;
+    this.isEditing = false;
+    try {
+      this.collection = await CollectionService.one(this.id);
+    } catch (er) {
+      this.notFound = true;
+    }
+  }
+
+  copyLink() {
+    copyToClipboard(this.shareUrl);
+  }
+
+  showStory(story: Story) {
+    this.story = story;
+    this.isShareModalActive = true;
+  }
+
+  edit() {
+    if (this.collection) {
+      this.form = {
+        title: this.collection.title,
+        description: this.collection.description || '',
+        isPublic: this.collection.isPublic
+      };
+      this.isEditing = true;
+    }
+  }
+
+  async save() {
+    if (!this.collection) {
+      return;
+    }
+    this.isSaving = true;
+    try {
+      const saved = await CollectionService.edit(this.collection.id, this.form);
+      this.collection = {
+        ...this.collection,
+        title: saved.title,
+        description: saved.description,
+        isPublic: saved.isPublic
+      };
+      this.isEditing = false;
+    } catch (er) {
+      this.error('Не удалось сохранить коллекцию.');
+    } finally {
+      this.isSaving = false;
+    }
+  }
+
+  remove() {
+    const collection = this.collection;
+    if (!collection) {
+      return;
+    }
+    Dialog.confirm({
+      message: `Удалить коллекцию «${collection.title}»? Истории останутся.`,
+      confirmText: 'Удалить',
+      cancelText: 'Отмена',
+      type: 'is-danger',
+      onConfirm: async () => {
+        try {
+          await CollectionService.remove(collection.id);
+          this.$router.push('/u/' + collection.userId);
+        } catch (er) {
+          this.error('Не удалось удалить коллекцию.');
+        }
+      }
+    });
+  }
+
+  /** Swap the story with the neighbour, `shift` is -1 or 1 */
+  async move(story: StoryResponse, shift: number) {
+    if (!this.collection) {
+      return;
+    }
+    const stories = [...this.collection.stories];
+    const index = stories.indexOf(story);
+    const to = index + shift;
+    if (index < 0 || to < 0 || to >= stories.length) {
+      return;
+    }
+    stories.splice(index, 1);
+    stories.splice(to, 0, story);
+    this.changing = story.id;
+    try {
+      await CollectionService.reorder(
+        this.collection.id,
+        stories.map(x => x.id)
+      );
+      this.collection.stories = stories;
+    } catch (er) {
+      this.error('Не удалось изменить порядок.');
+    } finally {
+      this.changing = '';
+    }
+  }
+
+  async removeStory(story: StoryResponse) {
+    if (!this.collection) {
+      return;
+    }
+    this.changing = story.id;
+    try {
+      await CollectionService.removeStory(this.collection.id, story.id);
+      this.collection.stories = this.collection.stories.filter(
+        x => x !== story
+      );
+    } catch (er) {
+      this.error('Не удалось убрать историю из коллекции.');
+    } finally {
+      this.changing = '';
+    }
+  }
+
+  error(message: string) {
+    Toast.open({ message, type: 'is-danger', position: 'is-bottom' });
+  }
+}
@@ -7,18 +7,19 @@ import {
   FilterType,
   GetStoriesOptions,
   Period,
-  SortType
+  SortType,
+  SearchIn
 } from '../../interfaces';
 import { Nav } from '../../services/Nav';
-
-const today = new Date();
-
-const PERIODS: Record<Period, Date | null> = {
-  all: null,
-  week: new Date(today.getTime() - 7 * 24 * 60 * 60 * 1000),
-  month: new Date(today.getFullYear(), today.getMonth() - 1, 1),
-  '6-months': new Date(today.getFullYear(), today.getMonth() - 6, 1)
-};
+import { can } from '../../utils/permissions';
+import TagService from '../../services/TagService';
+import UserService from '../../services/UserService';
+import {
+  getOrderBy,
+  getPeriodStart,
+  PERIOD_ITEMS,
+  SORT_ITEMS
+} from '../../utils/storyFilters';
 
 @Component({
   components: {
@@ -30,7 +31,10 @@ const PERIODS: Record<Period, Date | null> = {
 export default class Gallery extends Vue {
   isLoading = false;
   isShareModalActive = false;
+  /** New stories of the followed authors */
+  feedUnread = 0;
   story: Story | false = false;
+  tagsSuggestions: string[] = [];
 
   get query(): string {
     return appModule.query;
@@ -39,6 +43,19 @@ export default class Gallery extends Vue {
     appModule.setQuery(val);
   }
 
+  get searchIn(): SearchIn {
+    return appModule.searchIn;
+  }
+  set searchIn(val: SearchIn) {
+    appModule.setSearchIn(val);
+  }
+
+  searchInItems = [
+    { text: 'везде', value: 'all' },
+    { text: 'у автора', value: 'user' },
+    { text: 'у Порфирьевича', value: 'ai' }
+  ];
+
   get tags(): string[] {
     return appModule.tags;
   }
@@ -53,20 +70,15 @@ export default class Gallery extends Vue {
     appModule.setSort(val);
   }
 
-  sortItemsForUser = [
-    { text: 'Случайный порядок', value: 'random' },
-    { text: 'Популярные', value: 'likesCount' },
-    { text: 'Новые', value: 'new' }
-  ];
-
   get sortItems() {
-    if (this.user && this.user.isSuperuser) {
-      return [
-        ...this.sortItemsForUser,
-        { text: 'Жалобы', value: 'violationsCount' }
-      ];
+    const items = [...SORT_ITEMS];
+    if (this.query) {
+      items.unshift({ text: 'По релевантности', value: 'relevance' });
+    }
+    if (can(this.user, 'story:moderate')) {
+      items.push({ text: 'Жалобы', value: 'violationsCount' });
     }
-    return this.sortItemsForUser;
+    return items;
   }
 
   get filter(): FilterType {
@@ -76,14 +88,24 @@ export default class Gallery extends Vue {
     appModule.setFilter(val);
   }
 
-  filterItemsForUser = [
-    { text: 'все', value: 'all' },
-    { text: 'только мои', value: 'my' },
-    { text: 'понравившиеся', value: 'favorite' }
-  ];
+  get filterItemsForUser() {
+    const items = [
+      { text: 'все', value: 'all' },
+      { text: 'только мои', value: 'my' },
+      { text: 'понравившиеся', value: 'favorite' },
+      { text: 'корзина', value: 'trash' }
+    ];
+    if (can(this.user, 'user:follow')) {
+      items.splice(1, 0, {
+        text: this.feedUnread ? `подписки (${this.feedUnread})` : 'подписки',
+        value: 'following'
+      });
+    }
+    return items;
+  }
 
   get filterItems() {
-    if (this.user && this.user.isSuperuser) {
+    if (can(this.user, 'story:moderate')) {
       return [
         ...this.filterItemsForUser
         // { text: 'жалобы', value: 'violations' }
@@ -99,22 +121,16 @@ export default class Gallery extends Vue {
     appModule.setPeriod(val);
   }
 
-  periods = [
-    { text: 'всё время', value: 'all' },
-    {
-      text: 'полгода',
-      value: '6-months'
-    },
-    { text: 'месяц', value: 'month' },
-    { text: 'неделю', value: 'week' }
-  ];
-
-  hasMore = true;
+  periods = PERIOD_ITEMS;
 
   get usePeriods(): boolean {
     return this.sort !== 'new';
   }
 
+  get hasMore(): boolean {
+    return !this.stories.length || !!appModule.nextCursor;
+  }
+
   get user() {
     return appModule.user;
   }
@@ -131,15 +147,22 @@ export default class Gallery extends Vue {
   @Watch('period')
   @Watch('filter')
   @Watch('tags')
+  @Watch('searchIn')
   async onQueryChange() {
-    await appModule.setStories([]);
+    await appModule.resetStories();
     this.loadMore();
     this.setQueryParams();
   }
 
   async mounted() {
     const query = this.$route.query;
-    const { filter, sort, period, tags } = query;
+    const { filter, sort, period, tags, searchIn } = query;
+    if (query.query) {
+      await appModule.setQuery(query.query as string);
+    }
+    if (searchIn) {
+      await appModule.setSearchIn(searchIn as SearchIn);
+    }
     if (filter) {
       await appModule.setFilter(filter as FilterType);
     }
@@ -163,54 +186,103 @@ export default class Gallery extends Vue {
         console.log(er);
       }
     }
+    this.loadFeedUnread();
     this.setQueryParams();
     if (!this.stories.length) {
       this.loadMore();
     }
   }
 
+  async loadFeedUnread() {
+    if (!can(this.user, 'user:follow') || this.filter === 'following') {
+      return;
+    }
+    try {
+      this.feedUnread = await UserService.feedUnread();
+    } catch (er) {
+      //
+    }
+  }
+
+  async markFeedSeen() {
+    try {
+      this.feedUnread = await UserService.feedSeen();
+    } catch (er) {
+      //
+    }
+  }
+
   setQueryParams() {
     Nav.gallery({
       // filter: this.filter,
       period: this.period,
       sort: this.sort,
       query: this.query,
+      searchIn: this.query && this.searchIn !== 'all' ? this.searchIn : '',
       tags: this.tags.join(',')
     });
   }
 
+  search() {
+    if (this.query && this.sort !== 'relevance') {
+      // sort watcher reloads the stories
+      this.sort = 'relevance';
+    } else if (!this.query && this.sort === 'relevance') {
+      this.sort = 'random';
+    } else {
+      this.onQueryChange();
+    }
+  }
+
   beforeTagAdding(tag: string) {
     return tag.indexOf(',') === -1;
     // return tag.length === 20;
   }
 
+  async getTagsSuggestions(query: string) {
+    try {
+      const tags = await TagService.all({ query, limit: 10 });
+      this.tagsSuggestions = tags
+        .map(x => x.name)
+        .filter(x => !this.tags.includes(x));
+    } catch (er) {
+      this.tagsSuggestions = [];
+    }
+  }
+
+  addTag(tag: string) {
+    if (!this.tags.includes(tag)) {
+      this.tags = [...this.tags, tag];
+    }
+  }
+
   async loadMore() {
     if (this.isLoading) {
       return;
     }
     this.isLoading = true;
     try {
-      const orderBy = [];
-      if (this.sort) {
-        if (this.sort === 'random') {
-          orderBy.push('RAND()');
-        } else if (this.sort !== 'new') {
-          orderBy.push(this.sort);
-        }
-      }
       const opt: GetStoriesOptions = {
         limit: 20,
-        offset: appModule.stories.length,
-        orderBy
+        orderBy: getOrderBy(this.sort)
       };
+      if (appModule.nextCursor) {
+        opt.cursor = appModule.nextCursor;
+      }
+      if (this.sort === 'random' && appModule.seed) {
+        opt.seed = appModule.seed;
+      }
       if (this.period !== 'all' && this.usePeriods) {
-        const period = PERIODS[this.period];
+        const period = getPeriodStart(this.period);
         if (period) {
           opt.afterDate = period.getTime();
         }
       }
       if (this.query) {
         opt.query = this.query;
+        if (this.searchIn !== 'all') {
+          opt.searchIn = this.searchIn;
+        }
       }
       if (this.tags) {
         opt.tags = this.tags.join(',');
@@ -221,10 +293,12 @@ export default class Gallery extends Vue {
 
       // Hard fix to disable scroll bottom on add new items
       const scrollPosition = document.documentElement.scrollTop;
-      const resp = await appModule.fetchStories(opt);
+      await appModule.fetchStories(opt);
       document.documentElement.scrollTop = scrollPosition;
-
-      this.hasMore = resp.length >= (opt.limit || 20);
+      if (opt.filter === 'following' && !opt.cursor) {
+        // the feed is seen when its first page is shown
+        this.markFeedSeen();
+      }
     } catch (er) {
       //
     } finally {
@@ -9,9 +9,14 @@ import Transformer from '../components/Transformer/Transformer.vue';
 import UserItem from '../components/UserItem/UserItem.vue';
 import LikeButton from '../components/LikeButton';
 import { appModule } from '../store/app';
-import { Scheme } from '../interfaces';
+import { Scheme, StoryResponse } from '../interfaces';
 import { schemeToHtml } from '../utils/schemeUtils';
-// import { checkCorrupted } from '../utils/checkCorrupted';
+import StoryService from '../services/StoryService';
+import { ApiError } from '../utils/ApiError';
+import { LocalDraft, getDraftTitle } from '../utils/draftStorage';
+import { rememberEditId } from '../utils/editIds';
+import { can } from '../utils/permissions';
+import { PUBLISH_ERRORS } from '../utils/publishErrors';
 
 @Component({
   components: {
@@ -19,7 +24,15 @@ import { schemeToHtml } from '../utils/schemeUtils';
     LikeButton,
     UserItem,
     Share: () =>
-      import(/* webpackChunkName: "share" */ '../components/Share/Share.vue')
+      import(/* webpackChunkName: "share" */ '../components/Share/Share.vue'),
+    Drafts: () =>
+      import(
+        /* webpackChunkName: "drafts" */ '../components/Drafts/Drafts.vue'
+      ),
+    Comments: () =>
+      import(
+        /* webpackChunkName: "comments" */ '../components/Comments/Comments.vue'
+      )
   }
 })
 export default class Home extends Vue {
@@ -30,6 +43,14 @@ export default class Home extends Vue {
   isShareModalActive = false;
   isLoading = false;
   isTransformLoading = false;
+  /** The story the user continues in the editor */
+  forkOf: Story | false = false;
+  forks: StoryResponse[] = [];
+  /** The last draft offered to continue */
+  restoreDraft: LocalDraft | false = false;
+  isDraftsModalActive = false;
+
+  __unwatchScheme?: () => void;
 
   get isShareDisabled() {
     return (
@@ -45,9 +66,51 @@ export default class Home extends Vue {
     return appModule.user;
   }
 
+  get drafts() {
+    return appModule.drafts;
+  }
+
+  get canBan() {
+    return can(this.user, 'user:ban');
+  }
+
+  get restoreDraftTitle() {
+    return this.restoreDraft ? getDraftTitle(this.restoreDraft) : '';
+  }
+
+  /** How the AI fragments of the opened story were generated */
+  get generationInfo() {
+    const settings = this.story && this.story.generationSettings;
+    if (settings) {
+      return [
+        `слов: ${settings.length}`,
+        `температура: ${settings.temperature}`,
+        `top-k: ${settings.topK}`,
+        `top-p: ${settings.topP}`,
+        `вариантов: ${settings.numSamples}`
+      ].join(', ');
+    }
+    return '';
+  }
+
   @Watch('story')
   onStoryChange() {
     appModule.getLikes();
+    this.loadForks();
+  }
+
+  @Watch('user')
+  onUserChange() {
+    // drafts of the account become available after login
+    appModule.loadDrafts();
+  }
+
+  @Watch('id')
+  onIdChange(id: string) {
+    const story = appModule.story;
+    if (id && !(story && story.id === id)) {
+      this._loadStory();
+    }
   }
 
   mounted() {
@@ -56,23 +119,33 @@ export default class Home extends Vue {
 
   async saveStory() {
     if (!appModule.story) {
-      const isCorrupted = false; // checkCorrupted(this.scheme);
-      if (isCorrupted) {
+      this.isShareModalActive = true;
+      let story: Story | false;
+      try {
+        story = this.forkOf
+          ? await appModule.forkStory({
+              parentId: this.forkOf.id,
+              scheme: this.scheme
+            })
+          : await appModule.createStory(this.scheme);
+      } catch (er) {
+        this.isShareModalActive = false;
         Toast.open({
           message:
-            'Обнаружены недопустимые модификации дополнений Порфирьевича. Публикация истории отменена.',
+            (er instanceof ApiError && PUBLISH_ERRORS[er.code]) ||
+            'Не удалось сохранить историю.',
           type: 'is-danger',
           position: 'is-bottom'
         });
-      } else {
-        this.isShareModalActive = true;
-        const story = await appModule.createStory(this.scheme);
-        const path = '/' + (story ? story.id : '');
-        if (this.$route.path !== path) {
-          this.$router.push(path);
-        }
-        this.transformer.removeWindowUnloadListener();
+        return;
+      }
+      this.forkOf = false;
+      this.transformer.removeDraft();
+      const path = '/' + (story ? story.id : '');
+      if (this.$route.path !== path) {
+        this.$router.push(path);
       }
+      this.transformer.removeWindowUnloadListener();
     } else {
       this.isShareModalActive = true;
     }
@@ -84,17 +157,82 @@ export default class Home extends Vue {
 
   clean() {
     this.isShareModalActive = false;
+    // the user has started a new story
+    this.restoreDraft = false;
     appModule.removeActiveStory();
     if (this.$route.params.id) {
       this.$router.push('/');
     }
   }
 
+  /** Draft opened in the editor, refs are not reactive */
+  getActiveDraftId() {
+    return this.transformer ? this.transformer.draftId : '';
+  }
+
+  openDraft(draft: LocalDraft) {
+    this.restoreDraft = false;
+    this.isDraftsModalActive = false;
+    this.forkOf = false;
+    this.transformer.loadDraft(draft);
+  }
+
+  newStory() {
+    this.restoreDraft = false;
+    this.forkOf = false;
+    this.transformer.newDraft();
+    this.clean();
+  }
+
+  continueStory() {
+    if (this.story) {
+      this.forkOf = this.story;
+      this.clean();
+    }
+  }
+
+  async loadForks() {
+    this.forks = [];
+    const story = this.story;
+    if (story) {
+      try {
+        const resp = await StoryService.forks(story.id);
+        this.forks = resp.data || [];
+      } catch (er) {
+        //
+      }
+    }
+  }
+
+  forkPreview(story: Story) {
+    const text = (JSON.parse(story.content) as Scheme).map(x => x[0]).join('');
+    return text.length > 100 ? '…' + text.slice(-100) : text;
+  }
+
   copyToClipboard() {
     copyStory(schemeToHtml(this.scheme), 'text', this.story);
   }
 
   private async _mounted() {
+    await this._loadStory();
+    await appModule.loadDrafts();
+    const last = this.drafts[0];
+    const isEmpty = !this.scheme.some(x => x[0].trim());
+    if (last && !this.id && isEmpty) {
+      this.restoreDraft = last;
+    }
+  }
+
+  private async _loadStory() {
+    if (this.__unwatchScheme) {
+      this.__unwatchScheme();
+    }
+    const editId = this.$route.query.edit;
+    if (this.id && typeof editId === 'string') {
+      // opened with the secret edit link, keep it out of the address bar
+      rememberEditId(this.id, editId);
+      this.$router.replace({ path: this.$route.path });
+    }
     if (this.id) {
       this.isLoading = true;
       try {
@@ -112,6 +250,8 @@ export default class Home extends Vue {
       }
     }
 
-    setTimeout(() => this.$watch('scheme', () => this.clean()));
+    setTimeout(() => {
+      this.__unwatchScheme = this.$watch('scheme', () => this.clean());
+    });
   }
 }
@@ -0,0 +1,142 @@
+import { Component, Vue, Watch } from 'vue-property-decorator';
+import { ToastProgrammatic as Toast } from 'buefy';
+
+import { appModule } from '../../store/app';
+import {
+  ModerationAction,
+  ModerationQueueItem,
+  Scheme,
+  ViolationReason
+} from '../../interfaces';
+import ModerationService from '../../services/ModerationService';
+import { ApiError } from '../../utils/ApiError';
+import {
+  MODERATION_ACTIONS,
+  MODERATION_ACTION_LABELS,
+  VIOLATION_REASON_LABELS
+} from '../../utils/moderation';
+import { can } from '../../utils/permissions';
+
+const LIMIT = 20;
+
+@Component({
+  components: {
+    Appeals: () =>
+      import(
+        /* webpackChunkName: "appeals" */ '../../components/Appeals/Appeals.vue'
+      ),
+    CommentReports: () =>
+      import(
+        /* webpackChunkName: "comment-reports" */ '../../components/CommentReports/CommentReports.vue'
+      )
+  }
+})
+export default class Moderation extends Vue {
+  items: ModerationQueueItem[] = [];
+  total = 0;
+  isLoading = false;
+  /** Story id of the decision being sent */
+  deciding = '';
+  /** Moderator comments by story id */
+  comments: Record<string, string> = {};
+
+  get user() {
+    return appModule.user;
+  }
+
+  get canModerate() {
+    return can(this.user, 'story:moderate');
+  }
+
+  get canBan() {
+    return can(this.user, 'user:ban');
+  }
+
+  get actions() {
+    return MODERATION_ACTIONS.filter(
+      x => x !== 'ban-author' || this.canBan
+    ).map(value => ({ value, text: MODERATION_ACTION_LABELS[value] }));
+  }
+
+  get hasMore() {
+    return this.items.length < this.total;
+  }
+
+  @Watch('user')
+  onUserChange() {
+    this.load();
+  }
+
+  mounted() {
+    this.load();
+  }
+
+  reasonLabel(reason: ViolationReason | 'unknown' | null | undefined) {
+    return reason && reason !== 'unknown'
+      ? VIOLATION_REASON_LABELS[reason]
+      : 'Без причины';
+  }
+
+  actionLabel(action: ModerationAction) {
+    return MODERATION_ACTION_LABELS[action];
+  }
+
+  preview(item: ModerationQueueItem) {
+    const text = (JSON.parse(item.story.content) as Scheme)
+      .map(x => x[0])
+      .join('');
+    return text.length > 500 ? text.slice(0, 500) + '…' : text;
+  }
+
+  date(value: Date | string) {
+    return new Date(value).toLocaleString('ru');
+  }
+
+  async load(more = false) {
+    if (!this.canModerate) {
+      this.items = [];
+      this.total = 0;
+      return;
+    }
+    this.isLoading = true;
+    try {
+      const resp = await ModerationService.queue({
+        limit: LIMIT,
+        offset: more ? this.items.length : 0
+      });
+      resp.data.forEach(x => this.$set(this.comments, x.story.id, ''));
+      this.items = more ? [...this.items, ...resp.data] : resp.data;
+      this.total = resp.total;
+    } catch (er) {
+      Toast.open({
+        message: 'Не удалось загрузить жалобы.',
+        type: 'is-danger',
+        position: 'is-bottom'
+      });
+    } finally {
+      this.isLoading = false;
+    }
+  }
+
+  async decide(item: ModerationQueueItem, action: ModerationAction) {
+    const id = item.story.id;
+    this.deciding = id;
+    try {
+      await ModerationService.decide(id, action, this.comments[id]);
+      this.items = this.items.filter(x => x !== item);
+      this.total -= 1;
+      this.$delete(this.comments, id);
+    } catch (er) {
+      Toast.open({
+        message:
+          er instanceof ApiError && er.code === 'role-too-high'
+            ? 'Нельзя заблокировать модератора или администратора.'
+            : 'Не удалось сохранить решение.',
+        type: 'is-danger',
+        position: 'is-bottom'
+      });
+    } finally {
+      this.deciding = '';
+    }
+  }
+}
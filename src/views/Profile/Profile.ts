@@ -0,0 +1,229 @@
+import { Component, Prop, Vue, Watch } from 'vue-property-decorator';
+import { ToastProgrammatic as Toast } from 'buefy';
+
+import { Story } from '../../../classes/Story';
+import { appModule } from '../../store/app';
+import { can } from '../../utils/permissions';
+import StoryItem from '../../components/StoryItem/StoryItem.vue';
+import {
+  CollectionListItem,
+  GetStoriesOptions,
+  Period,
+  StoryResponse,
+  UserProfile
+} from '../../interfaces';
+import StoryService from '../../services/StoryService';
+import UserService from '../../services/UserService';
+import CollectionService from '../../services/CollectionService';
+import {
+  getOrderBy,
+  getPeriodStart,
+  PERIOD_ITEMS,
+  SORT_ITEMS
+} from '../../utils/storyFilters';
+
+@Component({
+  components: {
+    StoryItem,
+    Share: () =>
+      import(/* webpackChunkName: "share" */ '../../components/Share/Share.vue')
+  }
+})
+export default class Profile extends Vue {
+  @Prop({ type: String }) readonly username!: string;
+
+  profile: UserProfile | false = false;
+  notFound = false;
+  collections: CollectionListItem[] = [];
+  stories: StoryResponse[] = [];
+  nextCursor: string | null = null;
+  seed = '';
+  isLoading = false;
+
+  sort = 'new';
+  period: Period = 'all';
+  sortItems = SORT_ITEMS;
+  periods = PERIOD_ITEMS;
+
+  isEditing = false;
+  isSaving = false;
+  form = { displayName: '', bio: '' };
+
+  isFollowLoading = false;
+
+  isShareModalActive = false;
+  story: Story | false = false;
+
+  get user() {
+    return appModule.user;
+  }
+
+  get isOwner() {
+    return !!this.user && !!this.profile && this.user.id === this.profile.id;
+  }
+
+  get canFollow() {
+    return !this.isOwner && can(this.user, 'user:follow');
+  }
+
+  get name() {
+    return this.profile
+      ? this.profile.displayName || this.profile.username
+      : '';
+  }
+
+  get joinedAt() {
+    return this.profile
+      ? new Date(this.profile.createdAt).toLocaleDateString('ru')
+      : '';
+  }
+
+  get usePeriods() {
+    return this.sort !== 'new';
+  }
+
+  get hasMore() {
+    return !!this.nextCursor;
+  }
+
+  @Watch('username')
+  onUsernameChange() {
+    this.load();
+  }
+
+  @Watch('sort')
+  @Watch('period')
+  onQueryChange() {
+    this.stories = [];
+    this.nextCursor = null;
+    this.seed = '';
+    this.loadMore();
+  }
+
+  mounted() {
+    this.load();
+  }
+
+  async load() {
+    this.profile = false;
+    this.notFound = false;
+    this.collections = [];
+    this.stories = [];
+    this.nextCursor = null;
+    try {
+      this.profile = await UserService.profile(this.username);
+    } catch (er) {
+      this.notFound = true;
+      return;
+    }
+    this.loadMore();
+    this.loadCollections();
+  }
+
+  /** Public ones, all of them for the owner */
+  async loadCollections() {
+    if (!this.profile) {
+      return;
+    }
+    try {
+      this.collections = await CollectionService.all({
+        userId: this.profile.id
+      });
+    } catch (er) {
+      this.collections = [];
+    }
+  }
+
+  async loadMore() {
+    if (this.isLoading || !this.profile) {
+      return;
+    }
+    this.isLoading = true;
+    try {
+      const opt: GetStoriesOptions = {
+        limit: 20,
+        author: this.profile.id,
+        orderBy: getOrderBy(this.sort)
+      };
+      if (this.nextCursor) {
+        opt.cursor = this.nextCursor;
+      }
+      if (this.seed) {
+        opt.seed = this.seed;
+      }
+      const periodStart = this.usePeriods && getPeriodStart(this.period);
+      if (periodStart) {
+        opt.afterDate = periodStart.getTime();
+      }
+      const resp = await StoryService.all(opt);
+      this.stories = [...this.stories, ...resp.data];
+      this.nextCursor = resp.nextCursor;
+      this.seed = resp.seed || '';
+    } catch (er) {
+      //
+    } finally {
+      this.isLoading = false;
+    }
+  }
+
+  edit() {
+    if (this.profile) {
+      this.form = {
+        displayName: this.profile.displayName || '',
+        bio: this.profile.bio || ''
+      };
+      this.isEditing = true;
+    }
+  }
+
+  async save() {
+    if (!this.profile) {
+      return;
+    }
+    this.isSaving = true;
+    try {
+      const user = await UserService.edit(String(this.profile.id), this.form);
+      this.profile = {
+        ...this.profile,
+        displayName: user.displayName,
+        bio: user.bio
+      };
+      this.isEditing = false;
+    } catch (er) {
+      Toast.open({
+        message: 'Не удалось сохранить профиль.',
+        type: 'is-danger',
+        position: 'is-bottom'
+      });
+    } finally {
+      this.isSaving = false;
+    }
+  }
+
+  async toggleFollow() {
+    if (!this.profile) {
+      return;
+    }
+    this.isFollowLoading = true;
+    try {
+      const resp = await UserService.follow(
+        this.profile.id,
+        !this.profile.isFollowing
+      );
+      this.profile = { ...this.profile, ...resp };
+    } catch (er) {
+      Toast.open({
+        message: 'Не удалось изменить подписку.',
+        type: 'is-danger',
+        position: 'is-bottom'
+      });
+    } finally {
+      this.isFollowLoading = false;
+    }
+  }
+
+  showStory(story: Story) {
+    this.isShareModalActive = true;
+    this.story = story;
+  }
+}
@@ -0,0 +1,40 @@
+import config from '../config';
+import { AbuseRule, PublishContext } from './interfaces';
+import { getUserWords } from './text';
+
+/** Rejects the user text with the words of `antiAbuse.bannedWords` */
+export class BannedWordsRule implements AbuseRule {
+  private words = new Set<string>();
+  /** Entries ending with `*` match the beginning of a word */
+  private prefixes: string[] = [];
+
+  constructor() {
+    (config.get('antiAbuse.bannedWords') as string[])
+      .map(x => x.trim().toLowerCase())
+      .filter(x => x && x !== '*')
+      .forEach(x => {
+        if (x.endsWith('*')) {
+          this.prefixes.push(x.slice(0, -1));
+        } else {
+          this.words.add(x);
+        }
+      });
+  }
+
+  check(ctx: PublishContext) {
+    if (!this.words.size && !this.prefixes.length) {
+      return;
+    }
+    const found = getUserWords(ctx.scheme).some(
+      word =>
+        this.words.has(word) || this.prefixes.some(x => word.startsWith(x))
+    );
+    if (found) {
+      return {
+        code: 'banned-words' as const,
+        message: 'The story contains banned words',
+        status: 422
+      };
+    }
+  }
+}
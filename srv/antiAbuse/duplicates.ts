@@ -0,0 +1,68 @@
+import { getRepository, Not } from 'typeorm';
+import config from '../config';
+import { Story } from '../entity/Story';
+import { AbuseRule, AbuseViolation, PublishContext } from './interfaces';
+import { slidingWindow } from '../utils/slidingWindow';
+import { hammingDistance } from './simhash';
+
+/**
+ * Rejects the stories with the same text as a story of the same author and
+ * the near duplicates of the latest stories, the own ones of the author too.
+ * The deleted stories and the continued or forked one are not counted.
+ */
+export class DuplicatesRule implements AbuseRule {
+  /** Rejected duplicates by the author for the ban */
+  private attempts = slidingWindow({
+    window: 24 * 60 * 60 * 1000,
+    max: config.get('antiAbuse.duplicates.banAfter')
+  });
+
+  async check(ctx: PublishContext) {
+    const repository = getRepository(Story);
+    if (!ctx.simhash) {
+      // too short for the simhash
+      if (!ctx.userId) {
+        return;
+      }
+      const count = await repository.count({
+        where: {
+          userId: ctx.userId,
+          content: ctx.content,
+          isDeleted: false,
+          ...(ctx.storyId ? { id: Not(ctx.storyId) } : {})
+        }
+      });
+      return count ? this.violation(ctx.userId) : undefined;
+    }
+    const latest = repository
+      .createQueryBuilder('story')
+      .select(['story.id', 'story.simhash'])
+      .where('story.simhash IS NOT NULL')
+      .andWhere('story.isDeleted = :isDeleted', { isDeleted: false });
+    const exempt = [ctx.parentId, ctx.storyId].filter(x => x);
+    if (exempt.length) {
+      latest.andWhere('story.id NOT IN (:...exempt)', { exempt });
+    }
+    const stories = await latest
+      .orderBy('story.createdAt', 'DESC')
+      .take(config.get('antiAbuse.duplicates.scan'))
+      .getMany();
+    const distance = config.get('antiAbuse.duplicates.distance');
+    const similar = stories.filter(
+      x => hammingDistance(x.simhash as string, ctx.simhash) <= distance
+    );
+    if (!similar.length) {
+      return;
+    }
+    return this.violation(ctx.userId);
+  }
+
+  private violation(userId?: number): AbuseViolation {
+    return {
+      code: 'duplicate',
+      message: 'The same story is already published',
+      status: 409,
+      banUser: !!userId && !!this.attempts(String(userId))
+    };
+  }
+}
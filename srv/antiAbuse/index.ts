@@ -0,0 +1,99 @@
+import { Request } from 'express';
+import { Scheme } from '../../src/interfaces';
+import config from '../config';
+import { Story } from '../entity/Story';
+import { schemeToText, tokenize } from '../search/text';
+import { AbuseRule, AbuseViolation, PublishContext } from './interfaces';
+import { BannedWordsRule } from './bannedWords';
+import { DuplicatesRule } from './duplicates';
+import { LinksRule } from './links';
+import { RateLimitRule } from './rateLimit';
+import { simhash } from './simhash';
+import { UserTextRule } from './userText';
+
+export * from './interfaces';
+
+const RULES: Record<string, () => AbuseRule> = {
+  'rate-limit': () => new RateLimitRule(),
+  'banned-words': () => new BannedWordsRule(),
+  links: () => new LinksRule(),
+  'user-text': () => new UserTextRule(),
+  duplicates: () => new DuplicatesRule()
+};
+
+let rules: AbuseRule[] | undefined;
+
+/** Rules of `antiAbuse.rules` in their order */
+export function getRules(): AbuseRule[] {
+  if (!rules) {
+    rules = (config.get('antiAbuse.rules') as string[])
+      .map(x => x.trim())
+      .filter(x => {
+        if (!RULES[x]) {
+          console.log(`Unknown anti-abuse rule "${x}"`);
+          return false;
+        }
+        return true;
+      })
+      .map(x => RULES[x]());
+  }
+  return rules;
+}
+
+/** Fragments after the first `offset` characters of the text */
+function cutScheme(scheme: Scheme, offset: number) {
+  const result: Scheme = [];
+  scheme.forEach(([text, type]) => {
+    if (offset >= text.length) {
+      offset -= text.length;
+      return;
+    }
+    result.push([text.slice(offset), type]);
+    offset = 0;
+  });
+  return result;
+}
+
+/** Fragments of the story without the text of the parent story */
+function getOwnScheme(story: Story, parent?: Pick<Story, 'content'>) {
+  const scheme = JSON.parse(story.content) as Scheme;
+  return parent
+    ? cutScheme(scheme, schemeToText(JSON.parse(parent.content)).length)
+    : scheme;
+}
+
+function getSimhash(scheme: Scheme) {
+  const words = tokenize(schemeToText(scheme));
+  return words.length < config.get('antiAbuse.duplicates.minWords')
+    ? ''
+    : simhash(words);
+}
+
+/**
+ * Run the anti-abuse rules for the new or changed story, set its simhash
+ * and return the first violation.
+ * The simhash of a fork covers only its continuation of the parent story.
+ */
+export async function checkPublish(
+  req: Request,
+  story: Story,
+  parent?: Pick<Story, 'id' | 'content'>
+): Promise<AbuseViolation | undefined> {
+  const scheme = getOwnScheme(story, parent);
+  const ctx: PublishContext = {
+    userId: req.user && req.user.id,
+    ip: req.ip,
+    scheme,
+    simhash: getSimhash(scheme),
+    content: story.content,
+    parentId: parent && parent.id,
+    storyId: story.id
+  };
+  story.simhash = ctx.simhash || null;
+  for (const rule of getRules()) {
+    const violation = await rule.check(ctx);
+    if (violation) {
+      return violation;
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import { PublishRejection, Scheme } from '../../src/interfaces';
+
+export interface PublishContext {
+  userId?: number;
+  ip: string;
+  /** Fragments of the story without the text of the parent story */
+  scheme: Scheme;
+  /** Simhash of the own text, empty when the text is too short */
+  simhash: string;
+  content: string;
+  /** The continued or forked story, it is not a duplicate */
+  parentId?: string | null;
+  /** The edited story, it is not compared with itself */
+  storyId?: string;
+}
+
+export interface AbuseViolation {
+  code: PublishRejection;
+  message: string;
+  /** HTTP status of the rejection */
+  status: number;
+  /** Seconds to wait before publishing again */
+  retryAfter?: number;
+  /** The author keeps repeating it and should be banned */
+  banUser?: boolean;
+}
+
+export interface AbuseRule {
+  check(
+    ctx: PublishContext
+  ): AbuseViolation | undefined | Promise<AbuseViolation | undefined>;
+}
@@ -0,0 +1,20 @@
+import config from '../config';
+import { AbuseRule, PublishContext } from './interfaces';
+import { getUserText } from './text';
+
+// full links and bare domains of the common zones
+const LINK = /(?:https?:\/\/|www\.)\S+|[\p{L}\p{N}-]+\.(?:ru|com|net|org|info|biz|io|su|xyz|рф)(?![\p{L}\p{N}])/giu;
+
+/** Rejects the user text with more than `antiAbuse.maxLinks` links */
+export class LinksRule implements AbuseRule {
+  check(ctx: PublishContext) {
+    const links = getUserText(ctx.scheme).match(LINK) || [];
+    if (links.length > config.get('antiAbuse.maxLinks')) {
+      return {
+        code: 'link-spam' as const,
+        message: 'Too many links in the story',
+        status: 422
+      };
+    }
+  }
+}
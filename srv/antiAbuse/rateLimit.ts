@@ -0,0 +1,30 @@
+import config from '../config';
+import { slidingWindow } from '../utils/slidingWindow';
+import { AbuseRule, PublishContext } from './interfaces';
+
+/** Limits the published stories per account and per IP */
+export class RateLimitRule implements AbuseRule {
+  private byUser = slidingWindow({
+    window: config.get('antiAbuse.rateLimit.window'),
+    max: config.get('antiAbuse.rateLimit.maxPerUser')
+  });
+  private byIp = slidingWindow({
+    window: config.get('antiAbuse.rateLimit.window'),
+    max: config.get('antiAbuse.rateLimit.maxPerIp')
+  });
+
+  check(ctx: PublishContext) {
+    // both limits count the story
+    const userRetry = ctx.userId ? this.byUser(String(ctx.userId)) : 0;
+    const ipRetry = this.byIp(ctx.ip);
+    const retryAfter = Math.max(userRetry, ipRetry);
+    if (retryAfter) {
+      return {
+        code: 'rate-limited' as const,
+        message: 'Too many stories, try again later',
+        status: 429,
+        retryAfter
+      };
+    }
+  }
+}
@@ -0,0 +1,53 @@
+/** Words in a shingle */
+const SHINGLE_SIZE = 3;
+
+function fnv1a(str: string, seed: number) {
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < str.length; i++) {
+    hash ^= str.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+function popcount(x: number) {
+  x -= (x >>> 1) & 0x55555555;
+  x = (x & 0x33333333) + ((x >>> 2) & 0x33333333);
+  return Math.imul((x + (x >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24;
+}
+
+function toHex(bits: number) {
+  return (bits >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * 64 bit simhash of the word shingles as 16 hex digits.
+ * Similar texts get hashes with few different bits.
+ */
+export function simhash(words: string[]) {
+  const weights = new Array<number>(64).fill(0);
+  const count = Math.max(1, words.length - SHINGLE_SIZE + 1);
+  for (let i = 0; i < count; i++) {
+    const shingle = words.slice(i, i + SHINGLE_SIZE).join(' ');
+    const halves = [fnv1a(shingle, 0), fnv1a(shingle, 0x9e3779b9)];
+    for (let bit = 0; bit < 64; bit++) {
+      const half = halves[bit >> 5];
+      weights[bit] += (half >>> (bit & 31)) & 1 ? 1 : -1;
+    }
+  }
+  const halves = [0, 0];
+  weights.forEach((weight, bit) => {
+    if (weight > 0) {
+      halves[bit >> 5] |= 1 << (bit & 31);
+    }
+  });
+  return toHex(halves[0]) + toHex(halves[1]);
+}
+
+/** Number of the different bits of two hashes */
+export function hammingDistance(a: string, b: string) {
+  return (
+    popcount(parseInt(a.slice(0, 8), 16) ^ parseInt(b.slice(0, 8), 16)) +
+    popcount(parseInt(a.slice(8), 16) ^ parseInt(b.slice(8), 16))
+  );
+}
@@ -0,0 +1,12 @@
+import { Scheme } from '../../src/interfaces';
+import { schemeToText, tokenize } from '../search/text';
+
+/** Only the text written by the user */
+export function getUserText(scheme: Scheme) {
+  return schemeToText(scheme, 'user');
+}
+
+/** Words of the user text in lower case */
+export function getUserWords(scheme: Scheme) {
+  return tokenize(getUserText(scheme));
+}
@@ -0,0 +1,29 @@
+import config from '../config';
+import { AbuseRule, PublishContext } from './interfaces';
+
+const SPACE = /\s/g;
+
+/**
+ * Rejects the stories where the user has written less than
+ * `antiAbuse.minUserTextRatio` of the text.
+ */
+export class UserTextRule implements AbuseRule {
+  check(ctx: PublishContext) {
+    let total = 0;
+    let user = 0;
+    ctx.scheme.forEach(([text, type]) => {
+      const length = text.replace(SPACE, '').length;
+      total += length;
+      if (type === 0) {
+        user += length;
+      }
+    });
+    if (total && user / total < config.get('antiAbuse.minUserTextRatio')) {
+      return {
+        code: 'low-user-text' as const,
+        message: 'Too little text is written by the user',
+        status: 422
+      };
+    }
+  }
+}
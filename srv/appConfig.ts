@@ -1,6 +1,15 @@
 import path from 'path';
 import fs from 'fs';
 import express, { Application } from 'express';
+import config from './config';
+
+/** `trust proxy` from the string of the config */
+const getTrustProxy = (value: string) => {
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+  return /^\d+$/.test(value) ? Number(value) : value;
+};
 
 export function appConfig(app: Application) {
   const mediaPath = path.resolve(__dirname, '../media');
@@ -9,5 +18,6 @@ export function appConfig(app: Application) {
     fs.mkdirSync(mediaPath);
   }
 
+  app.set('trust proxy', getTrustProxy(config.get('http.trustProxy')));
   app.use('/media', express.static(mediaPath));
 }
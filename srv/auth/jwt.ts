@@ -21,7 +21,16 @@ passport.use(
     try {
       const user = await userRepository.findOneOrFail({
         where: { uid: payload.sub },
-        select: ['id', 'uid', 'username', 'photoUrl', 'isSuperuser']
+        select: [
+          'id',
+          'uid',
+          'username',
+          'photoUrl',
+          'isSuperuser',
+          'isBanned',
+          'role',
+          'generationSettings'
+        ]
       });
       return done(null, user, payload);
     } catch (error) {
@@ -0,0 +1,124 @@
+import { promises as fs } from 'fs';
+import { Request } from 'express';
+import { getRepository } from 'typeorm';
+import { Collection } from '../entity/Collection';
+import { CollectionItem } from '../entity/CollectionItem';
+import { Story } from '../entity/Story';
+import {
+  collectionPostcard,
+  getCollectionPostcardPath
+} from '../utils/postcard';
+import { can } from '../../src/utils/permissions';
+
+const storySelect: (keyof Story)[] = [
+  'id',
+  'content',
+  'createdAt',
+  'viewsCount',
+  'postcard',
+  'userId',
+  'likesCount',
+  'isPublic',
+  'visibility',
+  'commentsCount',
+  'parentId',
+  'verified'
+];
+
+/** Wait for the rest of the changes before the postcard is rendered again */
+const POSTCARD_DELAY = 5000;
+const postcardTimers = new Map<number, NodeJS.Timeout>();
+
+export const isCollectionOwner = (req: Request, collection: Collection) =>
+  !!req.user && req.user.id === collection.userId;
+
+/** Private collections are seen by the owner and the moderators only */
+export async function findCollection(req: Request) {
+  const collection = await getRepository(Collection).findOne(
+    Number(req.params.id)
+  );
+  if (
+    !collection ||
+    (!collection.isPublic &&
+      !isCollectionOwner(req, collection) &&
+      !can(req.user, 'story:moderate'))
+  ) {
+    return;
+  }
+  return collection;
+}
+
+/**
+ * Stories of the collection in its order, without the deleted, banned
+ * and hidden ones, the private and unlisted ones are seen by the author only.
+ */
+export function getCollectionStories(
+  collectionId: number,
+  viewerId?: number
+) {
+  return getRepository(Story)
+    .createQueryBuilder('story')
+    .innerJoin(CollectionItem, 'item', 'item.storyId = story.id')
+    .select(storySelect.map(x => `story.${x}`))
+    .where('item.collectionId = :collectionId', { collectionId })
+    .andWhere(
+      'story.isDeleted = :isDeleted AND story.isBanned = :isBanned AND story.isHidden = :isHidden',
+      { isDeleted: false, isBanned: false, isHidden: false }
+    )
+    .andWhere(
+      "(story.userId = :viewerId OR story.visibility = 'public' OR (story.visibility IS NULL AND story.isPublic = :isPublic))",
+      { viewerId: viewerId || 0, isPublic: true }
+    )
+    .orderBy('item.position', 'ASC')
+    .addOrderBy('item.id', 'ASC')
+    .getMany();
+}
+
+async function updatePostcard(id: number) {
+  const repository = getRepository(Collection);
+  const collection = await repository.findOne(id);
+  if (!collection) {
+    return;
+  }
+  if (!collection.isPublic) {
+    // the path is public, it must not show the private titles and texts
+    await removeCollectionPostcard(collection);
+    return;
+  }
+  // everyone sees the postcard of a public collection
+  const stories = await getCollectionStories(id);
+  const postcard = await collectionPostcard(collection, stories);
+  await repository.update(id, { postcard });
+}
+
+/**
+ * Render the postcard again after the title or the stories change,
+ * the private collections have none.
+ */
+export function schedulePostcard(id: number) {
+  const timer = postcardTimers.get(id);
+  if (timer) {
+    clearTimeout(timer);
+  }
+  postcardTimers.set(
+    id,
+    setTimeout(() => {
+      postcardTimers.delete(id);
+      updatePostcard(id).catch(error => console.log(error));
+    }, POSTCARD_DELAY)
+  );
+}
+
+export async function removeCollectionPostcard(collection: Collection) {
+  const timer = postcardTimers.get(collection.id);
+  if (timer) {
+    clearTimeout(timer);
+    postcardTimers.delete(collection.id);
+  }
+  await fs
+    .unlink(getCollectionPostcardPath(collection.id))
+    .catch(() => undefined);
+  if (collection.postcard) {
+    await getRepository(Collection).update(collection.id, { postcard: null });
+  }
+}
@@ -9,12 +9,276 @@ const config = convict({
       doc: 'The port to listen on',
       default: 3000,
       env: 'PORT'
+    },
+    trustProxy: {
+      doc:
+        'Express `trust proxy`: `true`, `false`, the number of proxies or their addresses. The rate limits take the client IP from `X-Forwarded-For` of the trusted proxies',
+      default: 'loopback',
+      env: 'TRUST_PROXY'
     }
   },
   site: {
     default: 'http://localhost:3000',
     env: 'SITE'
   },
+  generator: {
+    backend: {
+      doc:
+        'The text generation backend: `remote` forwards requests to `endpoint`, `stub` returns fake replies for development and tests',
+      format: ['remote', 'stub'],
+      default: 'remote',
+      env: 'GENERATOR_BACKEND'
+    },
+    endpoint: {
+      doc: 'The URL of the text generation model',
+      default: 'https://pelevin.gpt.dobro.ai',
+      env: 'GENERATOR_ENDPOINT'
+    },
+    stream: {
+      doc:
+        'The model streams replies from `endpoint/generate_stream/` as JSON lines',
+      default: false,
+      env: 'GENERATOR_STREAM'
+    },
+    timeout: {
+      doc: 'Milliseconds to wait for the model reply',
+      default: 30000,
+      env: 'GENERATOR_TIMEOUT'
+    },
+    retries: {
+      doc: 'How many times to repeat a failed request to the model',
+      default: 1,
+      env: 'GENERATOR_RETRIES'
+    },
+    verification: {
+      doc:
+        'What to do with stories whose AI fragments were not issued by the server: `flag` saves them as not verified, `reject` refuses to save',
+      format: ['flag', 'reject'],
+      default: 'flag',
+      env: 'GENERATOR_VERIFICATION'
+    },
+    rateLimit: {
+      window: {
+        doc: 'The rate limit window in milliseconds',
+        default: 60000,
+        env: 'GENERATOR_RATE_LIMIT_WINDOW'
+      },
+      max: {
+        doc: 'How many generation requests a user or IP can make in the window',
+        default: 30,
+        env: 'GENERATOR_RATE_LIMIT_MAX'
+      }
+    }
+  },
+  antiAbuse: {
+    rules: {
+      doc:
+        'The checks of the published stories in the order they run: `rate-limit`, `banned-words`, `links`, `user-text`, `duplicates`',
+      format: Array,
+      default: ['rate-limit', 'banned-words', 'links', 'user-text', 'duplicates'],
+      env: 'ANTI_ABUSE_RULES'
+    },
+    rateLimit: {
+      window: {
+        doc: 'The publish rate limit window in milliseconds',
+        default: 60 * 60 * 1000,
+        env: 'ANTI_ABUSE_RATE_LIMIT_WINDOW'
+      },
+      maxPerUser: {
+        doc: 'How many stories a user can publish in the window',
+        default: 20,
+        env: 'ANTI_ABUSE_RATE_LIMIT_MAX_PER_USER'
+      },
+      maxPerIp: {
+        doc: 'How many stories can be published from one IP in the window',
+        default: 40,
+        env: 'ANTI_ABUSE_RATE_LIMIT_MAX_PER_IP'
+      }
+    },
+    bannedWords: {
+      doc:
+        'Comma separated words the user text must not contain, `word*` also matches the words starting with it',
+      format: Array,
+      default: [],
+      env: 'ANTI_ABUSE_BANNED_WORDS'
+    },
+    maxLinks: {
+      doc: 'How many links the user text can contain',
+      default: 2,
+      env: 'ANTI_ABUSE_MAX_LINKS'
+    },
+    minUserTextRatio: {
+      doc: 'The least share of the text written by the user, from 0 to 1',
+      default: 0.05,
+      env: 'ANTI_ABUSE_MIN_USER_TEXT_RATIO'
+    },
+    duplicates: {
+      minWords: {
+        doc:
+          'Shorter stories are compared by the exact text with the stories of the same author only',
+        default: 20,
+        env: 'ANTI_ABUSE_DUPLICATES_MIN_WORDS'
+      },
+      distance: {
+        doc: 'The most different bits of the simhash of the near duplicates',
+        default: 3,
+        env: 'ANTI_ABUSE_DUPLICATES_DISTANCE'
+      },
+      scan: {
+        doc: 'How many latest stories to compare with',
+        default: 10000,
+        env: 'ANTI_ABUSE_DUPLICATES_SCAN'
+      },
+      banAfter: {
+        doc: 'Ban the author who tries to publish that many duplicates a day',
+        default: 20,
+        env: 'ANTI_ABUSE_DUPLICATES_BAN_AFTER'
+      }
+    }
+  },
+  trash: {
+    retention: {
+      doc: 'Days the authors can restore the deleted stories',
+      default: 30,
+      env: 'TRASH_RETENTION'
+    },
+    purgeInterval: {
+      doc:
+        'How often to remove the expired stories in milliseconds, 0 to run `npm run trash:purge` by cron instead',
+      default: 6 * 60 * 60 * 1000,
+      env: 'TRASH_PURGE_INTERVAL'
+    }
+  },
+  mail: {
+    transport: {
+      doc:
+        'How to deliver the mail: `smtp`, `file` writes the messages to `mail.file.dir`, `console` prints them for development and tests',
+      format: ['smtp', 'file', 'console'],
+      default: 'console',
+      env: 'MAIL_TRANSPORT'
+    },
+    from: {
+      doc: 'The sender of the mail',
+      default: 'Порфирьевич <noreply@porfirevich.ru>',
+      env: 'MAIL_FROM'
+    },
+    smtp: {
+      host: {
+        doc: 'The SMTP server',
+        default: 'localhost',
+        env: 'MAIL_SMTP_HOST'
+      },
+      port: {
+        doc: 'The SMTP port',
+        default: 587,
+        env: 'MAIL_SMTP_PORT'
+      },
+      secure: {
+        doc: 'Connect with TLS, usually for the port 465',
+        default: false,
+        env: 'MAIL_SMTP_SECURE'
+      },
+      user: {
+        doc: 'The SMTP login, empty to send without authentication',
+        default: '',
+        env: 'MAIL_SMTP_USER'
+      },
+      password: {
+        doc: 'The SMTP password',
+        default: '',
+        env: 'MAIL_SMTP_PASSWORD'
+      }
+    },
+    file: {
+      dir: {
+        doc: 'Where the `file` transport writes the messages',
+        default: 'mail',
+        env: 'MAIL_FILE_DIR'
+      }
+    },
+    queueInterval: {
+      doc:
+        'How often to send the queued mail in milliseconds, 0 to run `npm run mail:send` by cron instead',
+      default: 60 * 1000,
+      env: 'MAIL_QUEUE_INTERVAL'
+    },
+    batchSize: {
+      doc: 'How many messages to send in one run of the queue',
+      default: 50,
+      env: 'MAIL_BATCH_SIZE'
+    },
+    maxAttempts: {
+      doc: 'How many times to try to send a message before giving up',
+      default: 5,
+      env: 'MAIL_MAX_ATTEMPTS'
+    },
+    retryDelay: {
+      doc:
+        'Milliseconds to wait before the second attempt, every next one waits twice as long',
+      default: 5 * 60 * 1000,
+      env: 'MAIL_RETRY_DELAY'
+    },
+    digest: {
+      interval: {
+        doc:
+          'Milliseconds between the digests of the top stories, 0 to run `npm run mail:digest` by cron instead',
+        default: 7 * 24 * 60 * 60 * 1000,
+        env: 'MAIL_DIGEST_INTERVAL'
+      },
+      size: {
+        doc: 'How many top stories the digest has',
+        default: 10,
+        env: 'MAIL_DIGEST_SIZE'
+      }
+    },
+    likeMilestones: {
+      doc: 'Comma separated numbers of likes to tell the author about',
+      format: Array,
+      default: ['10', '50', '100', '500', '1000'],
+      env: 'MAIL_LIKE_MILESTONES'
+    }
+  },
+  moderation: {
+    autoHide: {
+      enabled: {
+        doc: 'Hide the reported stories from the gallery until a moderator decides',
+        default: true,
+        env: 'MODERATION_AUTO_HIDE'
+      },
+      threshold: {
+        doc:
+          'The sum of the reporters weights to hide the story, every trusted reporter weights 1',
+        default: 3,
+        env: 'MODERATION_AUTO_HIDE_THRESHOLD'
+      },
+      window: {
+        doc: 'Milliseconds in which the reports are summed',
+        default: 24 * 60 * 60 * 1000,
+        env: 'MODERATION_AUTO_HIDE_WINDOW'
+      },
+      minAccountAge: {
+        doc: 'Milliseconds since the registration to count the user reports',
+        default: 24 * 60 * 60 * 1000,
+        env: 'MODERATION_MIN_ACCOUNT_AGE'
+      },
+      guestWeight: {
+        doc: 'The weight of a report from a not logged in user',
+        default: 0,
+        env: 'MODERATION_GUEST_WEIGHT'
+      },
+      reputationStep: {
+        doc:
+          'How much every upheld report adds to the reporter weight and every dismissed one takes away',
+        default: 0.25,
+        env: 'MODERATION_REPUTATION_STEP'
+      },
+      maxWeight: {
+        doc: 'The weight limit of the reporter with a good reputation',
+        default: 2,
+        env: 'MODERATION_MAX_WEIGHT'
+      }
+    }
+  },
   auth: {
     google: {
       clientId: {
@@ -0,0 +1,204 @@
+import { Request, Response, NextFunction } from 'express';
+import { getRepository, In, IsNull } from 'typeorm';
+
+import { Appeal } from '../entity/Appeal';
+import { AuditEvent } from '../entity/AuditEvent';
+import { Story } from '../entity/Story';
+import { User } from '../entity/User';
+import { AppealStatus, Ban, BansResponse } from '../../src/interfaces';
+import { MAX_APPEAL_LENGTH } from '../../src/utils/moderation';
+import { reverseAuditEvent } from '../moderation/reverseAuditEvent';
+
+const statuses: AppealStatus[] = ['pending', 'approved', 'rejected'];
+
+/**
+ * The active bans of the user and of the user stories.
+ * The older bans get their events from `npm run audit:legacy-bans`.
+ */
+const findBanEvents = async (user: User) => {
+  const repository = getRepository(AuditEvent);
+  const events: AuditEvent[] = [];
+  if (user.isBanned) {
+    const event = await repository.findOne({
+      where: {
+        action: 'user:ban',
+        targetType: 'user',
+        targetId: String(user.id),
+        reversedById: IsNull()
+      },
+      order: { id: 'DESC' }
+    });
+    if (event) {
+      events.push(event);
+    }
+  }
+  // the stories banned before the audit log have no `moderationStatus`,
+  // while the user is banned they are banned with the user
+  const stories = await getRepository(Story).find({
+    where: user.isBanned
+      ? { userId: user.id, isBanned: true, moderationStatus: 'banned' }
+      : [
+          { userId: user.id, isBanned: true, moderationStatus: 'banned' },
+          { userId: user.id, isBanned: true, moderationStatus: IsNull() }
+        ],
+    select: ['id']
+  });
+  if (stories.length) {
+    const storyEvents = await repository.find({
+      where: {
+        action: 'story:ban',
+        targetType: 'story',
+        targetId: In(stories.map(x => x.id)),
+        reversedById: IsNull()
+      },
+      order: { id: 'DESC' }
+    });
+    // the latest ban of every story
+    storyEvents.forEach(x => {
+      if (!events.some(e => e.targetId === x.targetId)) {
+        events.push(x);
+      }
+    });
+  }
+  return events;
+};
+
+export default class AppealController {
+  static bans = async (req: Request, res: Response, next: NextFunction) => {
+    const userId = (req.user as Express.User).id;
+    try {
+      const user = await getRepository(User).findOne(userId);
+      if (!user) {
+        res.status(404).send('User not found');
+        return;
+      }
+      const events = await findBanEvents(user);
+      const appeals = events.length
+        ? await getRepository(Appeal).find({
+            where: { eventId: In(events.map(x => x.id)) }
+          })
+        : [];
+      const bans: Ban[] = events.map(event => ({
+        event,
+        appeal: appeals.find(x => x.eventId === event.id) || null
+      }));
+      const resp: BansResponse = { isBanned: user.isBanned, bans };
+      res.send(resp);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  static create = async (req: Request, res: Response, next: NextFunction) => {
+    const userId = (req.user as Express.User).id;
+    const { eventId, text } = req.body;
+    if (typeof text !== 'string' || !text.trim()) {
+      res.status(400).send({ code: 'empty-text', message: 'Empty appeal' });
+      return;
+    }
+    try {
+      const user = await getRepository(User).findOne(userId);
+      const events = user ? await findBanEvents(user) : [];
+      const event = events.find(x => x.id === Number(eventId));
+      if (!event) {
+        res.status(404).send('Ban not found');
+        return;
+      }
+      const repository = getRepository(Appeal);
+      if (await repository.count({ where: { eventId: event.id } })) {
+        res
+          .status(409)
+          .send({ code: 'already-appealed', message: 'Already appealed' });
+        return;
+      }
+      const appeal = await repository.save(
+        repository.create({
+          userId,
+          eventId: event.id,
+          text: text.trim().slice(0, MAX_APPEAL_LENGTH)
+        })
+      );
+      res.send(appeal);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /** Appeals for the moderators, the oldest first */
+  static all = async (req: Request, res: Response, next: NextFunction) => {
+    const status = statuses.find(x => x === req.query.status) || 'pending';
+    try {
+      const appeals = await getRepository(Appeal)
+        .createQueryBuilder('appeal')
+        .where({ status })
+        .leftJoin('appeal.user', 'u')
+        .addSelect(['u.id', 'u.username', 'u.isBanned'])
+        .leftJoinAndSelect('appeal.event', 'event')
+        .orderBy('appeal.createdAt', status === 'pending' ? 'ASC' : 'DESC')
+        .take(100)
+        .getMany();
+      res.send(appeals);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /** Approve the appeal to lift the ban or reject it */
+  static decide = async (req: Request, res: Response, next: NextFunction) => {
+    const moderatorId = (req.user as Express.User).id;
+    const { status, response } = req.body;
+    if (status !== 'approved' && status !== 'rejected') {
+      res
+        .status(400)
+        .send({ code: 'invalid-status', message: 'Unknown status' });
+      return;
+    }
+    try {
+      const repository = getRepository(Appeal);
+      const appeal = await repository.findOne(Number(req.params.id));
+      if (!appeal) {
+        res.status(404).send('Appeal not found');
+        return;
+      }
+      if (appeal.status !== 'pending') {
+        res
+          .status(409)
+          .send({ code: 'already-decided', message: 'Already decided' });
+        return;
+      }
+      if (status === 'approved') {
+        const eventRepository = getRepository(AuditEvent);
+        const event = await eventRepository.findOne(appeal.eventId);
+        const details = { appealId: appeal.id };
+        if (event && !event.reversedById) {
+          await reverseAuditEvent(event, moderatorId, details);
+        }
+        // the author was banned for the story, it stays banned otherwise
+        const storyId = event && event.details && event.details.storyId;
+        if (event && event.action === 'user:ban' && storyId) {
+          const storyBan = await eventRepository.findOne({
+            where: {
+              action: 'story:ban',
+              targetId: String(storyId),
+              reversedById: IsNull()
+            },
+            order: { id: 'DESC' }
+          });
+          if (storyBan) {
+            await reverseAuditEvent(storyBan, moderatorId, details);
+          }
+        }
+      }
+      appeal.status = status;
+      appeal.moderatorId = moderatorId;
+      appeal.decidedAt = new Date();
+      if (typeof response === 'string' && response.trim()) {
+        appeal.response = response.trim().slice(0, 500);
+      }
+      await repository.save(appeal);
+      res.send(appeal);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,99 @@
+import { Request, Response, NextFunction } from 'express';
+import { getRepository } from 'typeorm';
+
+import { AuditEvent } from '../entity/AuditEvent';
+import {
+  AuditAction,
+  AuditEventsResponse,
+  AuditTargetType
+} from '../../src/interfaces';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_TARGET_TYPES,
+  REVERSIBLE_AUDIT_ACTIONS
+} from '../../src/utils/audit';
+import { reverseAuditEvent } from '../moderation/reverseAuditEvent';
+
+export default class AuditController {
+  static all = async (req: Request, res: Response, next: NextFunction) => {
+    const action = req.query.action as AuditAction;
+    const targetType = req.query.targetType as string;
+    const targetId = req.query.targetId as string;
+    const actorId = Number(req.query.actorId as string);
+    const cursor = Number(req.query.cursor as string);
+    let limit = Number(req.query.limit as string);
+    limit = limit && limit < 101 ? limit : 50;
+    try {
+      const list = getRepository(AuditEvent)
+        .createQueryBuilder('event')
+        .leftJoin('event.actor', 'actor')
+        .addSelect(['actor.id', 'actor.username']);
+      if (AUDIT_ACTIONS.includes(action)) {
+        list.andWhere('event.action = :action', { action });
+      }
+      if (AUDIT_TARGET_TYPES.includes(targetType as AuditTargetType)) {
+        list.andWhere('event.targetType = :targetType', { targetType });
+      }
+      if (targetId) {
+        list.andWhere('event.targetId = :targetId', { targetId });
+      }
+      if (actorId) {
+        list.andWhere('event.actorId = :actorId', { actorId });
+      }
+      if (cursor) {
+        list.andWhere('event.id < :cursor', { cursor });
+      }
+      let events = await list
+        .orderBy('event.id', 'DESC')
+        .take(limit + 1)
+        .getMany();
+      let nextCursor: string | null = null;
+      if (events.length > limit) {
+        events = events.slice(0, limit);
+        nextCursor = String(events[limit - 1].id);
+      }
+      const resp: AuditEventsResponse = {
+        object: 'list',
+        data: events,
+        nextCursor
+      };
+      res.json(resp);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /** Undo the ban or the hiding and record it as a new event */
+  static reverse = async (req: Request, res: Response, next: NextFunction) => {
+    const actorId = (req.user as Express.User).id;
+    try {
+      const repository = getRepository(AuditEvent);
+      const event = await repository.findOne(Number(req.params.id));
+      if (!event) {
+        res.status(404).send('Event not found');
+        return;
+      }
+      if (!REVERSIBLE_AUDIT_ACTIONS.includes(event.action)) {
+        res.status(400).send({
+          code: 'not-reversible',
+          message: 'The event can not be reversed'
+        });
+        return;
+      }
+      if (event.reversedById) {
+        res
+          .status(409)
+          .send({ code: 'already-reversed', message: 'Already reversed' });
+        return;
+      }
+      const reversal = await reverseAuditEvent(event, actorId);
+      if (!reversal) {
+        res.status(404).send('Target not found');
+        return;
+      }
+      res.send(event);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
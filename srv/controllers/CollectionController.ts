@@ -0,0 +1,299 @@
+import { Request, Response, NextFunction } from 'express';
+import { getRepository, In } from 'typeorm';
+import { validate } from 'class-validator';
+
+import { Collection } from '../entity/Collection';
+import { CollectionItem } from '../entity/CollectionItem';
+import { Story } from '../entity/Story';
+import { User } from '../entity/User';
+import { CollectionListItem, CollectionResponse } from '../../src/interfaces';
+import { MAX_COLLECTION_STORIES } from '../../src/utils/collections';
+import {
+  findCollection,
+  getCollectionStories,
+  isCollectionOwner,
+  removeCollectionPostcard,
+  schedulePostcard
+} from '../collections';
+
+const trimOrNull = (value: unknown) =>
+  typeof value === 'string' ? value.trim() || null : null;
+
+/** Find the collection of the logged in user or send 404 */
+const findOwn = async (req: Request, res: Response) => {
+  const collection = await findCollection(req);
+  if (!collection || !isCollectionOwner(req, collection)) {
+    res.status(404).send('Collection not found');
+    return;
+  }
+  return collection;
+};
+
+/** Save the fields from the body, send 400 on the validation errors */
+const saveFields = async (
+  req: Request,
+  res: Response,
+  collection: Collection
+) => {
+  const { title, description, isPublic } = req.body;
+  if (title !== undefined) {
+    collection.title = typeof title === 'string' ? title.trim() : '';
+  }
+  if (description !== undefined) {
+    collection.description = trimOrNull(description);
+  }
+  if (isPublic !== undefined) {
+    collection.isPublic = !!isPublic;
+  }
+  const errors = await validate(collection);
+  if (errors.length > 0) {
+    res.status(400).send(errors);
+    return;
+  }
+  const saved = await getRepository(Collection).save(collection);
+  if (saved.isPublic) {
+    schedulePostcard(saved.id);
+  } else {
+    await removeCollectionPostcard(saved);
+    saved.postcard = null;
+  }
+  return saved;
+};
+
+export default class CollectionController {
+  /**
+   * Collections of the user from the `userId` query, only the public ones
+   * for the others. The logged in user gets the own ones without it.
+   */
+  static all = async (req: Request, res: Response, next: NextFunction) => {
+    const userId = Number(req.query.userId) || (req.user && req.user.id);
+    const storyId = req.query.storyId as string | undefined;
+    if (!userId) {
+      res.status(401).send();
+      return;
+    }
+    const isOwner = !!req.user && req.user.id === userId;
+    try {
+      const query = getRepository(Collection)
+        .createQueryBuilder('collection')
+        .where({ userId })
+        .loadRelationCountAndMap('collection.storiesCount', 'collection.items')
+        .orderBy('collection.updatedAt', 'DESC');
+      if (!isOwner) {
+        query.andWhere('collection.isPublic = :isPublic', { isPublic: true });
+      }
+      const data = (await query.getMany()) as CollectionListItem[];
+      if (storyId && data.length) {
+        const items = await getRepository(CollectionItem).find({
+          where: { storyId, collectionId: In(data.map(x => x.id)) },
+          select: ['collectionId']
+        });
+        data.forEach(x => {
+          x.hasStory = items.some(y => y.collectionId === x.id);
+        });
+      }
+      res.send(data);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  static one = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const collection = await findCollection(req);
+      if (!collection) {
+        res.status(404).send('Collection not found');
+        return;
+      }
+      collection.user = await getRepository(User).findOne(collection.userId, {
+        select: ['id', 'username', 'displayName', 'photoUrl']
+      });
+      const resp: CollectionResponse = {
+        ...collection,
+        stories: await getCollectionStories(
+          collection.id,
+          req.user && req.user.id
+        ),
+        isOwner: isCollectionOwner(req, collection)
+      };
+      res.send(resp);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  static create = async (req: Request, res: Response, next: NextFunction) => {
+    const collection = new Collection();
+    collection.userId = (req.user as Express.User).id;
+    collection.isPublic = false;
+    try {
+      const saved = await saveFields(req, res, collection);
+      if (saved) {
+        res.send(saved);
+      }
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /** Change the title, the description or `isPublic` */
+  static edit = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const collection = await findOwn(req, res);
+      if (!collection) {
+        return;
+      }
+      const saved = await saveFields(req, res, collection);
+      if (saved) {
+        res.send(saved);
+      }
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  static delete = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const collection = await findOwn(req, res);
+      if (!collection) {
+        return;
+      }
+      const id = collection.id;
+      await getRepository(CollectionItem).delete({ collectionId: id });
+      await getRepository(Collection).delete(id);
+      await removeCollectionPostcard(collection);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /** Add the story from the body to the end of the collection */
+  static addStory = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const user = req.user as Express.User;
+    const storyId = String(req.body.storyId || '');
+    try {
+      const collection = await findOwn(req, res);
+      if (!collection) {
+        return;
+      }
+      const story = await getRepository(Story).findOne(storyId, {
+        select: [
+          'id',
+          'userId',
+          'visibility',
+          'isPublic',
+          'isDeleted',
+          'isBanned'
+        ]
+      });
+      const isPrivate =
+        !!story &&
+        (story.visibility || (story.isPublic ? 'public' : 'unlisted')) ===
+          'private';
+      if (
+        !story ||
+        story.isDeleted ||
+        story.isBanned ||
+        (isPrivate && story.userId !== user.id)
+      ) {
+        res.status(404).send('Story not found');
+        return;
+      }
+      const repository = getRepository(CollectionItem);
+      const collectionId = collection.id;
+      if (!(await repository.count({ collectionId, storyId }))) {
+        const count = await repository.count({ collectionId });
+        if (count >= MAX_COLLECTION_STORIES) {
+          res.status(400).send({
+            code: 'collection-full',
+            message: `No more than ${MAX_COLLECTION_STORIES} stories`
+          });
+          return;
+        }
+        const { max } = await repository
+          .createQueryBuilder('item')
+          .select('MAX(item.position)', 'max')
+          .where({ collectionId })
+          .getRawOne();
+        const item = new CollectionItem();
+        item.collectionId = collectionId;
+        item.storyId = storyId;
+        item.position = max === null ? 0 : Number(max) + 1;
+        await repository.save(item);
+        await getRepository(Collection).update(collectionId, {
+          updatedAt: new Date()
+        });
+        schedulePostcard(collectionId);
+      }
+      res.send({ storiesCount: await repository.count({ collectionId }) });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  static removeStory = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const collection = await findOwn(req, res);
+      if (!collection) {
+        return;
+      }
+      const collectionId = collection.id;
+      const repository = getRepository(CollectionItem);
+      await repository.delete({ collectionId, storyId: req.params.storyId });
+      schedulePostcard(collectionId);
+      res.send({ storiesCount: await repository.count({ collectionId }) });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Put the stories from `storyIds` first in its order, the rest
+   * (hidden from the owner's list, e.g. deleted) keep theirs after them.
+   */
+  static reorder = async (req: Request, res: Response, next: NextFunction) => {
+    const storyIds: unknown = req.body.storyIds;
+    try {
+      const collection = await findOwn(req, res);
+      if (!collection) {
+        return;
+      }
+      const repository = getRepository(CollectionItem);
+      const items = await repository.find({
+        where: { collectionId: collection.id },
+        order: { position: 'ASC', id: 'ASC' }
+      });
+      const isValid =
+        Array.isArray(storyIds) &&
+        new Set(storyIds).size === storyIds.length &&
+        storyIds.every(x => items.some(y => y.storyId === x));
+      if (!isValid) {
+        res.status(400).send({
+          code: 'invalid-order',
+          message: 'storyIds must be the stories of the collection'
+        });
+        return;
+      }
+      const ids = storyIds as string[];
+      const rest = items.filter(x => !ids.includes(x.storyId));
+      items.forEach(x => {
+        const index = ids.indexOf(x.storyId);
+        x.position = index >= 0 ? index : ids.length + rest.indexOf(x);
+      });
+      await repository.save(items);
+      schedulePostcard(collection.id);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
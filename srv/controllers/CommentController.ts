@@ -0,0 +1,205 @@
+import { Request, Response, NextFunction } from 'express';
+import { getRepository } from 'typeorm';
+import { validate } from 'class-validator';
+
+import { Comment } from '../entity/Comment';
+import { Story } from '../entity/Story';
+import { can } from '../../src/utils/permissions';
+import { saveReport } from '../moderation/saveReport';
+import { removeComment } from '../moderation/removeComment';
+import { notify } from '../notifications';
+
+/** Comments are open on the stories anyone with the link can read */
+const findStory = async (req: Request) => {
+  const story = await getRepository(Story).findOne(req.params.id, {
+    select: ['id', 'userId', 'visibility', 'isPublic', 'isDeleted', 'isBanned']
+  });
+  if (!story || story.isDeleted || story.isBanned) {
+    return;
+  }
+  const isPrivate =
+    (story.visibility || (story.isPublic ? 'public' : 'unlisted')) ===
+    'private';
+  const user = req.user;
+  if (
+    isPrivate &&
+    !(user && (story.userId === user.id || can(user, 'story:moderate')))
+  ) {
+    return;
+  }
+  return story;
+};
+
+/** Deleted and removed comments keep their place in the thread only */
+const hideDeleted = (comment: Comment): Comment =>
+  comment.isDeleted || comment.isRemoved ? { ...comment, text: '' } : comment;
+
+const changeCommentsCount = (storyId: string, value: number) =>
+  value > 0
+    ? getRepository(Story).increment({ id: storyId }, 'commentsCount', value)
+    : getRepository(Story).decrement({ id: storyId }, 'commentsCount', -value);
+
+export default class CommentController {
+  /** All comments of the story, the client builds the thread by `parentId` */
+  static all = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const story = await findStory(req);
+      if (!story) {
+        res.status(404).send('Story not found');
+        return;
+      }
+      const comments = await getRepository(Comment)
+        .createQueryBuilder('comment')
+        .where({ storyId: story.id })
+        .leftJoin('comment.user', 'u')
+        .addSelect(['u.id', 'u.username', 'u.displayName', 'u.photoUrl'])
+        .orderBy('comment.createdAt', 'ASC')
+        .getMany();
+      res.send(comments.map(hideDeleted));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  static create = async (req: Request, res: Response, next: NextFunction) => {
+    const user = req.user as Express.User;
+    const { text, parentId } = req.body;
+    // the same as for the stories, see `StoryController.create`
+    if (user.isBanned) {
+      res.status(403).send();
+      return;
+    }
+    try {
+      const story = await findStory(req);
+      if (!story) {
+        res.status(404).send('Story not found');
+        return;
+      }
+      const repository = getRepository(Comment);
+      const comment = new Comment();
+      comment.storyId = story.id;
+      comment.userId = user.id;
+      comment.text = typeof text === 'string' ? text.trim() : '';
+      let parent: Comment | undefined;
+      if (parentId) {
+        parent = await repository.findOne(Number(parentId), {
+          select: ['id', 'storyId', 'userId']
+        });
+        if (!parent || parent.storyId !== story.id) {
+          res
+            .status(400)
+            .send({ code: 'invalid-parent', message: 'Unknown parent' });
+          return;
+        }
+        comment.parentId = parent.id;
+      }
+      const errors = await validate(comment);
+      if (errors.length > 0) {
+        res.status(400).send(errors);
+        return;
+      }
+      await repository.save(comment);
+      await changeCommentsCount(story.id, 1);
+      const data = {
+        type: 'comment' as const,
+        actorId: user.id,
+        storyId: story.id,
+        commentId: comment.id
+      };
+      await notify({ ...data, userId: story.userId });
+      // the author of the story is notified once
+      if (parent && parent.userId !== story.userId) {
+        await notify({
+          ...data,
+          userId: parent.userId,
+          details: { reply: true }
+        });
+      }
+      res.send(comment);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /** Change the text, only by the author */
+  static edit = async (req: Request, res: Response, next: NextFunction) => {
+    const user = req.user as Express.User;
+    const { text } = req.body;
+    try {
+      const repository = getRepository(Comment);
+      const comment = await repository.findOne(Number(req.params.id));
+      if (!comment || comment.isDeleted || comment.isRemoved) {
+        res.status(404).send('Comment not found');
+        return;
+      }
+      if (comment.userId !== user.id || user.isBanned) {
+        res.status(403).send('Not permitted');
+        return;
+      }
+      comment.text = typeof text === 'string' ? text.trim() : '';
+      comment.editedAt = new Date();
+      const errors = await validate(comment);
+      if (errors.length > 0) {
+        res.status(400).send(errors);
+        return;
+      }
+      res.send(await repository.save(comment));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /** Deleted by the author or removed by a moderator */
+  static delete = async (req: Request, res: Response, next: NextFunction) => {
+    const user = req.user as Express.User;
+    try {
+      const repository = getRepository(Comment);
+      const comment = await repository.findOne(Number(req.params.id));
+      if (!comment || comment.isDeleted || comment.isRemoved) {
+        res.status(404).send('Comment not found');
+        return;
+      }
+      const isAuthor = comment.userId === user.id;
+      if (!isAuthor && !can(user, 'story:moderate')) {
+        res.status(403).send('Not permitted');
+        return;
+      }
+      if (isAuthor) {
+        comment.isDeleted = true;
+        await repository.save(comment);
+        await changeCommentsCount(comment.storyId, -1);
+      } else {
+        await removeComment(comment, user.id);
+      }
+      res.send(hideDeleted(comment));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  static violation = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const comment = await getRepository(Comment).findOne(
+        Number(req.params.id),
+        { select: ['id', 'storyId', 'isDeleted', 'isRemoved'] }
+      );
+      if (!comment || comment.isDeleted || comment.isRemoved) {
+        res.status(404).send('Comment not found');
+        return;
+      }
+      const report = await saveReport(req, res, {
+        storyId: comment.storyId,
+        commentId: comment.id
+      });
+      if (report) {
+        res.status(200).send();
+      }
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,166 @@
+import { Request, Response, NextFunction } from 'express';
+import { getRepository, IsNull, LessThan } from 'typeorm';
+
+import { Draft } from '../entity/Draft';
+import { Scheme } from '../../src/interfaces';
+import {
+  DRAFT_TOMBSTONE_DAYS,
+  limitReplies
+} from '../../src/utils/draftStorage';
+
+const MAX_DRAFTS = 50;
+const MAX_CONTENT_LENGTH = 100000;
+const ID_PATTERN = /^[a-z0-9]{8,32}$/i;
+
+const select: (keyof Draft)[] = [
+  'id',
+  'name',
+  'content',
+  'replies',
+  'createdAt',
+  'updatedAt',
+  'deletedAt'
+];
+
+/** The client time of the change, not later than now */
+const getChangedAt = (value: unknown) => {
+  const now = new Date();
+  const changedAt = new Date(value as string);
+  return isNaN(changedAt.getTime()) || changedAt > now ? now : changedAt;
+};
+
+const isScheme = (content: unknown) => {
+  if (typeof content !== 'string' || content.length > MAX_CONTENT_LENGTH) {
+    return false;
+  }
+  try {
+    const scheme = JSON.parse(content) as Scheme;
+    return (
+      Array.isArray(scheme) &&
+      scheme.every(
+        x =>
+          Array.isArray(x) &&
+          typeof x[0] === 'string' &&
+          [0, 1].includes(x[1])
+      )
+    );
+  } catch (er) {
+    return false;
+  }
+};
+
+export default class DraftController {
+  /** The drafts with the tombstones of the deleted ones */
+  static all = async (req: Request, res: Response, next: NextFunction) => {
+    const userId = (req.user as Express.User).id;
+    const expired = new Date(
+      Date.now() - DRAFT_TOMBSTONE_DAYS * 24 * 60 * 60 * 1000
+    );
+    try {
+      await getRepository(Draft).delete({
+        userId,
+        deletedAt: LessThan(expired)
+      });
+      const drafts = await getRepository(Draft).find({
+        where: { userId },
+        select,
+        order: { updatedAt: 'DESC' }
+      });
+      res.send(drafts);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /** Create or update the draft with the client id */
+  static save = async (req: Request, res: Response, next: NextFunction) => {
+    const userId = (req.user as Express.User).id;
+    const id = req.params.id;
+    const { name, content, replies, updatedAt } = req.body;
+    if (!ID_PATTERN.test(id)) {
+      res.status(400).send({ code: 'invalid-id', message: 'Invalid draft id' });
+      return;
+    }
+    if (!isScheme(content)) {
+      res
+        .status(400)
+        .send({ code: 'invalid-content', message: 'Invalid content' });
+      return;
+    }
+    const changedAt = getChangedAt(updatedAt);
+    try {
+      const repository = getRepository(Draft);
+      let draft = await repository.findOne(id);
+      if (draft && draft.userId !== userId) {
+        res.status(404).send('Draft not found');
+        return;
+      }
+      if (draft && draft.updatedAt > changedAt) {
+        // changed or deleted on another device later, the client takes it
+        res.status(409).send(draft);
+        return;
+      }
+      if (!draft || draft.deletedAt) {
+        const count = await repository.count({
+          where: { userId, deletedAt: IsNull() }
+        });
+        if (count >= MAX_DRAFTS) {
+          res
+            .status(403)
+            .send({ code: 'drafts-limit', message: 'Too many drafts' });
+          return;
+        }
+      }
+      if (!draft) {
+        draft = repository.create({ id, userId });
+      }
+      draft.name = typeof name === 'string' ? name.slice(0, 100) : '';
+      draft.content = content;
+      draft.replies = limitReplies(replies);
+      draft.updatedAt = changedAt;
+      draft.deletedAt = null;
+      await repository.save(draft);
+      res.send(draft);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Replace the draft with the tombstone deleted at the client time
+   * `deletedAt`, keep the draft changed later on another device.
+   */
+  static remove = async (req: Request, res: Response, next: NextFunction) => {
+    const userId = (req.user as Express.User).id;
+    const id = req.params.id;
+    if (!ID_PATTERN.test(id)) {
+      res.status(400).send({ code: 'invalid-id', message: 'Invalid draft id' });
+      return;
+    }
+    const deletedAt = getChangedAt(req.body && req.body.deletedAt);
+    try {
+      const repository = getRepository(Draft);
+      let draft = await repository.findOne(id);
+      if (draft && draft.userId !== userId) {
+        res.status(404).send('Draft not found');
+        return;
+      }
+      if (draft && draft.updatedAt > deletedAt) {
+        res.status(409).send(draft);
+        return;
+      }
+      if (!draft) {
+        draft = repository.create({ id, userId });
+      }
+      draft.name = '';
+      draft.content = '';
+      draft.replies = null;
+      draft.updatedAt = deletedAt;
+      draft.deletedAt = deletedAt;
+      await repository.save(draft);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,109 @@
+import { Request, Response, NextFunction } from 'express';
+import { getRepository } from 'typeorm';
+import { Follow } from '../entity/Follow';
+import { Story } from '../entity/Story';
+import { User } from '../entity/User';
+import { notify } from '../notifications';
+import { FeedUnreadResponse, FollowResponse } from '../../src/interfaces';
+
+const sendFollowState = async (
+  res: Response,
+  followerId: number,
+  authorId: number
+) => {
+  const repository = getRepository(Follow);
+  const resp: FollowResponse = {
+    isFollowing: !!(await repository.count({ followerId, authorId })),
+    followersCount: await repository.count({ authorId })
+  };
+  res.send(resp);
+};
+
+export default class FollowController {
+  static follow = async (req: Request, res: Response, next: NextFunction) => {
+    const followerId = (req.user as Express.User).id;
+    const authorId = Number(req.params.id);
+    if (authorId === followerId) {
+      res
+        .status(400)
+        .send({ code: 'self-follow', message: 'Can not follow yourself' });
+      return;
+    }
+    try {
+      const author = await getRepository(User).findOne(authorId, {
+        select: ['id', 'isBanned']
+      });
+      if (!author || author.isBanned) {
+        res.status(404).send('User not found');
+        return;
+      }
+      const repository = getRepository(Follow);
+      if (!(await repository.count({ followerId, authorId }))) {
+        const follow = new Follow();
+        follow.followerId = followerId;
+        follow.authorId = authorId;
+        await repository.save(follow);
+        await notify({ userId: authorId, type: 'follow', actorId: followerId });
+      }
+      await sendFollowState(res, followerId, authorId);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  static unfollow = async (req: Request, res: Response, next: NextFunction) => {
+    const followerId = (req.user as Express.User).id;
+    const authorId = Number(req.params.id);
+    try {
+      await getRepository(Follow).delete({ followerId, authorId });
+      await sendFollowState(res, followerId, authorId);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Number of the public stories the followed authors have published
+   * after the follow and since the feed was opened.
+   */
+  static unread = async (req: Request, res: Response, next: NextFunction) => {
+    const userId = (req.user as Express.User).id;
+    try {
+      const count = await getRepository(Story)
+        .createQueryBuilder('story')
+        .innerJoin(
+          Follow,
+          'follow',
+          'follow.authorId = story.userId AND follow.createdAt < story.createdAt'
+        )
+        .innerJoin(User, 'follower', 'follower.id = follow.followerId')
+        .where({
+          isPublic: true,
+          isDeleted: false,
+          isBanned: false,
+          isHidden: false
+        })
+        .andWhere('follow.followerId = :userId', { userId })
+        .andWhere(
+          '(follower.feedSeenAt IS NULL OR story.createdAt > follower.feedSeenAt)'
+        )
+        .getCount();
+      const resp: FeedUnreadResponse = { count };
+      res.send(resp);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /** The user has opened the feed, the stories before now are not new */
+  static seen = async (req: Request, res: Response, next: NextFunction) => {
+    const userId = (req.user as Express.User).id;
+    try {
+      await getRepository(User).update(userId, { feedSeenAt: new Date() });
+      const resp: FeedUnreadResponse = { count: 0 };
+      res.send(resp);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
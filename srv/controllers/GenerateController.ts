@@ -0,0 +1,123 @@
+import { Request, Response } from 'express';
+import { getRepository } from 'typeorm';
+
+import { Reply } from '../entity/Reply';
+import { emulateStream, getGenerator, GenerateOptions } from '../generator';
+import {
+  getGenerationParams,
+  normalizeGenerationSettings
+} from '../../src/utils/generationSettings';
+
+const PROMPT_MAX_LENGTH = 1000;
+
+function getOptions(req: Request): GenerateOptions | undefined {
+  const prompt = req.body.prompt;
+  if (typeof prompt !== 'string' || !prompt.trim()) {
+    return;
+  }
+  return {
+    // out of range parameters are clamped, not rejected
+    ...getGenerationParams(normalizeGenerationSettings(req.body)),
+    prompt: prompt.slice(-PROMPT_MAX_LENGTH).trim()
+  };
+}
+
+/** Remember the issued replies to verify stories on publish */
+function saveReplies(req: Request, replies: string[]) {
+  const userId = req.user && req.user.id;
+  const sessionId = req.get('X-Session-Id');
+  const repository = getRepository(Reply);
+  return repository.save(
+    replies.map(text =>
+      repository.create({
+        text,
+        userId,
+        sessionId: sessionId ? sessionId.slice(0, 64) : null
+      })
+    )
+  );
+}
+
+export default class GenerateController {
+  static generate = async (req: Request, res: Response) => {
+    const opt = getOptions(req);
+    if (!opt) {
+      res.status(400).send({ detail: 'No `prompt`' });
+      return;
+    }
+
+    let replies: string[];
+    try {
+      replies = await getGenerator().generate(opt);
+    } catch (error) {
+      res.status(502).send({ detail: 'Generator is not available' });
+      return;
+    }
+    try {
+      await saveReplies(req, replies);
+    } catch (error) {
+      res.status(500).send({ detail: "can't save replies" });
+      return;
+    }
+    res.send({ replies });
+  };
+
+  /**
+   * Same as `generate` but sends server-sent events:
+   * `token` with `{ index, token }` for every piece of the reply
+   * and `done` with `{ replies }` at the end, or `error` with `{ detail }`.
+   */
+  static stream = async (req: Request, res: Response) => {
+    const opt = getOptions(req);
+    if (!opt) {
+      res.status(400).send({ detail: 'No `prompt`' });
+      return;
+    }
+    let closed = false;
+    req.on('close', () => {
+      closed = true;
+    });
+    opt.isAborted = () => closed;
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+    const send = (event: string, data: unknown) => {
+      if (!closed) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    };
+
+    const streamed: string[] = [];
+    const onToken = (index: number, token: string) => {
+      streamed[index] = (streamed[index] || '') + token;
+      send('token', { index, token });
+    };
+    let replies: string[] | undefined;
+    try {
+      const generator = getGenerator();
+      replies = generator.stream
+        ? await generator.stream(opt, onToken)
+        : await emulateStream(await generator.generate(opt), opt, onToken);
+    } catch (error) {
+      send('error', { detail: 'Generator is not available' });
+    }
+    // Partially received replies are kept by the client too
+    const issued = (closed || !replies ? streamed : replies).filter(
+      x => x && x.trim()
+    );
+    try {
+      await saveReplies(req, issued);
+      if (replies) {
+        send('done', { replies });
+      }
+    } catch (error) {
+      send('error', { detail: "can't save replies" });
+    }
+    res.end();
+  };
+}
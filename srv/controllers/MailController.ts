@@ -0,0 +1,135 @@
+import { Request, Response, NextFunction } from 'express';
+import { getRepository } from 'typeorm';
+import { MailPreferences } from '../entity/MailPreferences';
+import { User } from '../entity/User';
+import { MailKind, MailPreferencesResponse } from '../../src/interfaces';
+import { MAIL_KINDS, MAIL_KIND_LABELS } from '../../src/utils/mail';
+import { escapeHtml } from '../../src/utils/escapeHtml';
+import {
+  getMailPreferences,
+  getMailSettings,
+  unsubscribe
+} from '../mailer/preferences';
+
+const getResponse = async (userId: number) => {
+  const user = await getRepository(User).findOne(userId, {
+    select: ['id', 'email']
+  });
+  const resp: MailPreferencesResponse = {
+    ...getMailSettings(await getMailPreferences(userId)),
+    hasEmail: !!(user && user.email)
+  };
+  return resp;
+};
+
+const getKind = (req: Request) =>
+  MAIL_KINDS.find(x => x === req.query.kind) as MailKind | undefined;
+
+const getSubject = (kind?: MailKind) =>
+  kind ? `«${MAIL_KIND_LABELS[kind]}»` : 'все письма';
+
+const sendPage = (res: Response, body: string) => {
+  res
+    .type('text/html; charset=utf-8')
+    .send(
+      '<!DOCTYPE html><html lang="ru"><head><meta charset="utf-8">' +
+        '<title>Порфирьевич</title></head><body>' +
+        body +
+        '</body></html>'
+    );
+};
+
+export default class MailController {
+  /**
+   * The page of the unsubscribe link from the mail, works without login.
+   * Only shows the button: the mail scanners and the link previews open
+   * the links too.
+   */
+  static unsubscribePage = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const token = String(req.query.token || '');
+    const kind = getKind(req);
+    try {
+      const preferences =
+        token &&
+        (await getRepository(MailPreferences).findOne({
+          unsubscribeToken: token
+        }));
+      if (!preferences) {
+        res.status(404).send('Subscription not found');
+        return;
+      }
+      const query = new URLSearchParams({ token });
+      if (kind) {
+        query.set('kind', kind);
+      }
+      sendPage(
+        res,
+        `<p>Отписаться: ${getSubject(kind)}?</p>` +
+          `<form method="post" action="?${escapeHtml(query.toString())}">` +
+          '<button type="submit">Отписаться</button></form>'
+      );
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /** The button of the page and the one-click unsubscribe of mail clients */
+  static unsubscribe = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const token = String(req.query.token || '');
+    const kind = getKind(req);
+    try {
+      if (!token || !(await unsubscribe(token, kind))) {
+        res.status(404).send('Subscription not found');
+        return;
+      }
+      sendPage(
+        res,
+        `<p>Вы отписались: ${getSubject(kind)}. ` +
+          'Включить снова можно в настройках уведомлений.</p>'
+      );
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  static preferences = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      res.send(await getResponse((req.user as Express.User).id));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /** Change the kinds from the body, the others stay as they are */
+  static setPreferences = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const userId = (req.user as Express.User).id;
+    try {
+      const preferences = await getMailPreferences(userId);
+      MAIL_KINDS.forEach(x => {
+        if (typeof req.body[x] === 'boolean') {
+          preferences[x] = req.body[x];
+        }
+      });
+      await getRepository(MailPreferences).save(preferences);
+      res.send(await getResponse(userId));
+    } catch (error) {
+      next(error);
+    }
+  };
+}
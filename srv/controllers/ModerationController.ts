@@ -0,0 +1,356 @@
+import { Request, Response, NextFunction } from 'express';
+import { getRepository, In, IsNull } from 'typeorm';
+
+import { Story } from '../entity/Story';
+import { User } from '../entity/User';
+import { Violation } from '../entity/Violation';
+import { ModerationDecision } from '../entity/ModerationDecision';
+import { Comment } from '../entity/Comment';
+import {
+  CommentModerationAction,
+  CommentQueueItem,
+  CommentQueueResponse,
+  ModerationAction,
+  ModerationQueueItem,
+  ModerationQueueResponse,
+  ModerationStatus
+} from '../../src/interfaces';
+import {
+  MAX_VIOLATION_COMMENT_LENGTH,
+  MODERATION_ACTIONS
+} from '../../src/utils/moderation';
+import { can, getRole, ROLES } from '../../src/utils/permissions';
+import { cascadeUserBan } from '../moderation/cascadeUserBan';
+import { removeComment } from '../moderation/removeComment';
+import { recordAudit } from '../utils/recordAudit';
+import { notify } from '../notifications';
+
+const storySelect: (keyof Story)[] = [
+  'id',
+  'content',
+  'createdAt',
+  'userId',
+  'likesCount',
+  'isPublic',
+  'visibility',
+  'isBanned',
+  'isHidden',
+  'moderationStatus',
+  'violationsCount'
+];
+
+const statuses: Record<ModerationAction, ModerationStatus> = {
+  dismiss: 'dismissed',
+  hide: 'hidden',
+  'ban-story': 'banned',
+  'ban-author': 'banned',
+  'auto-hide': 'auto-hidden'
+};
+
+export default class ModerationController {
+  /** Stories with open reports, the most reported first */
+  static queue = async (req: Request, res: Response, next: NextFunction) => {
+    let limit = Number(req.query.limit as string);
+    limit = limit && limit < 51 ? limit : 20;
+    const offset = Number(req.query.offset as string) || 0;
+    try {
+      const violationRepository = getRepository(Violation);
+      const open = violationRepository
+        .createQueryBuilder('violation')
+        .where('violation.status = :status', { status: 'open' })
+        .andWhere('violation.commentId IS NULL');
+      const { total } = await open
+        .clone()
+        .select('COUNT(DISTINCT violation.storyId)', 'total')
+        .getRawOne();
+      const rows: { storyId: string }[] = await open
+        .clone()
+        .select('violation.storyId', 'storyId')
+        .addSelect('COUNT(violation.id)', 'count')
+        .addSelect('MAX(violation.createdAt)', 'lastAt')
+        .groupBy('violation.storyId')
+        .orderBy('count', 'DESC')
+        .addOrderBy('lastAt', 'DESC')
+        .offset(offset)
+        .limit(limit)
+        .getRawMany();
+      const ids = rows.map(x => x.storyId);
+
+      const data: ModerationQueueItem[] = [];
+      if (ids.length) {
+        const stories = await getRepository(Story)
+          .createQueryBuilder('story')
+          .whereInIds(ids)
+          .select(storySelect.map(x => `story.${x}`))
+          .leftJoin('story.user', 'u')
+          .addSelect(['u.id', 'u.username', 'u.photoUrl', 'u.isBanned'])
+          .getMany();
+        const violations = await violationRepository
+          .createQueryBuilder('violation')
+          .where({ storyId: In(ids), status: 'open', commentId: IsNull() })
+          .leftJoin('violation.user', 'u')
+          .addSelect(['u.id', 'u.username'])
+          .orderBy('violation.createdAt', 'DESC')
+          .getMany();
+        const decisions = await getRepository(ModerationDecision)
+          .createQueryBuilder('decision')
+          .where({ storyId: In(ids) })
+          .leftJoin('decision.moderator', 'm')
+          .addSelect(['m.id', 'm.username'])
+          .orderBy('decision.createdAt', 'DESC')
+          .getMany();
+
+        ids.forEach(id => {
+          const story = stories.find(x => x.id === id);
+          if (!story) {
+            return;
+          }
+          const item: ModerationQueueItem = {
+            story,
+            violations: violations.filter(x => x.storyId === id),
+            reasons: {},
+            decisions: decisions.filter(x => x.storyId === id)
+          };
+          item.violations.forEach(x => {
+            const reason = x.reason || 'unknown';
+            item.reasons[reason] = (item.reasons[reason] || 0) + 1;
+          });
+          data.push(item);
+        });
+      }
+      const resp: ModerationQueueResponse = {
+        object: 'list',
+        data,
+        total: Number(total) || 0
+      };
+      res.json(resp);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /** Apply the action to the story and close its open reports */
+  static decide = async (req: Request, res: Response, next: NextFunction) => {
+    const storyId = req.params.id;
+    const { action, comment } = req.body;
+    const note =
+      typeof comment === 'string'
+        ? comment.trim().slice(0, MAX_VIOLATION_COMMENT_LENGTH)
+        : '';
+    // shown to the author in the ban notice
+    const details = note ? { comment: note } : {};
+    if (!MODERATION_ACTIONS.includes(action)) {
+      res
+        .status(400)
+        .send({ code: 'invalid-action', message: 'Unknown action' });
+      return;
+    }
+    if (action === 'ban-author' && !can(req.user, 'user:ban')) {
+      res.status(403).send('Not permitted');
+      return;
+    }
+    try {
+      const storyRepository = getRepository(Story);
+      const story = await storyRepository.findOne(storyId);
+      if (!story) {
+        res.status(404).send('Story not found');
+        return;
+      }
+      let author: User | undefined;
+      if (action === 'ban-author') {
+        author = story.userId
+          ? await getRepository(User).findOne(story.userId)
+          : undefined;
+        if (!author) {
+          res
+            .status(400)
+            .send({ code: 'no-author', message: 'The story has no author' });
+          return;
+        }
+        // a moderator can not ban another moderator or an admin
+        const actorRank = ROLES.indexOf(getRole(req.user as Express.User));
+        if (ROLES.indexOf(getRole(author)) >= actorRank) {
+          res.status(403).send({
+            code: 'role-too-high',
+            message: 'Can not ban a user with the same or a higher role'
+          });
+          return;
+        }
+      }
+
+      const moderatorId = (req.user as Express.User).id;
+      const wasHidden = story.isHidden;
+      const wasBanned = story.isBanned;
+      if (action === 'dismiss') {
+        story.isHidden = false;
+      } else if (action === 'hide') {
+        story.isHidden = true;
+      } else {
+        story.isBanned = true;
+      }
+      story.moderationStatus = statuses[action as ModerationAction];
+      await storyRepository.save(story);
+      if (story.isHidden !== wasHidden) {
+        await recordAudit({
+          actorId: moderatorId,
+          action: story.isHidden ? 'story:hide' : 'story:unhide',
+          targetType: 'story',
+          targetId: story.id
+        });
+      }
+      if (story.isBanned !== wasBanned) {
+        await recordAudit({
+          actorId: moderatorId,
+          action: 'story:ban',
+          targetType: 'story',
+          targetId: story.id,
+          details
+        });
+      }
+      if (
+        (story.isHidden && !wasHidden) ||
+        (story.isBanned && !wasBanned)
+      ) {
+        await notify({
+          userId: story.userId,
+          type: 'moderation',
+          actorId: moderatorId,
+          storyId: story.id,
+          details: { action, ...details }
+        });
+      }
+      if (author && !author.isBanned) {
+        author.isBanned = true;
+        await getRepository(User).save(author);
+        await cascadeUserBan(author, moderatorId, {
+          ...details,
+          storyId: story.id
+        });
+      }
+
+      const violationRepository = getRepository(Violation);
+      const decisionRepository = getRepository(ModerationDecision);
+      const decision = decisionRepository.create({
+        storyId: story.id,
+        moderatorId,
+        action,
+        violationsCount: await violationRepository.count({
+          where: { storyId: story.id, status: 'open', commentId: IsNull() }
+        })
+      });
+      if (note) {
+        decision.comment = note;
+      }
+      await decisionRepository.save(decision);
+      await violationRepository.update(
+        { storyId: story.id, status: 'open', commentId: IsNull() },
+        { status: 'closed', decisionId: decision.id }
+      );
+      res.send(decision);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /** Comments with open reports, the most reported first */
+  static comments = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    let limit = Number(req.query.limit as string);
+    limit = limit && limit < 51 ? limit : 20;
+    const offset = Number(req.query.offset as string) || 0;
+    try {
+      const violationRepository = getRepository(Violation);
+      const open = violationRepository
+        .createQueryBuilder('violation')
+        .where('violation.status = :status', { status: 'open' })
+        .andWhere('violation.commentId IS NOT NULL');
+      const { total } = await open
+        .clone()
+        .select('COUNT(DISTINCT violation.commentId)', 'total')
+        .getRawOne();
+      const rows: { commentId: number }[] = await open
+        .clone()
+        .select('violation.commentId', 'commentId')
+        .addSelect('COUNT(violation.id)', 'count')
+        .addSelect('MAX(violation.createdAt)', 'lastAt')
+        .groupBy('violation.commentId')
+        .orderBy('count', 'DESC')
+        .addOrderBy('lastAt', 'DESC')
+        .offset(offset)
+        .limit(limit)
+        .getRawMany();
+      const ids = rows.map(x => Number(x.commentId));
+
+      const data: CommentQueueItem[] = [];
+      if (ids.length) {
+        const comments = await getRepository(Comment)
+          .createQueryBuilder('comment')
+          .whereInIds(ids)
+          .leftJoin('comment.user', 'u')
+          .addSelect(['u.id', 'u.username', 'u.photoUrl', 'u.isBanned'])
+          .getMany();
+        const violations = await violationRepository
+          .createQueryBuilder('violation')
+          .where({ commentId: In(ids), status: 'open' })
+          .leftJoin('violation.user', 'u')
+          .addSelect(['u.id', 'u.username'])
+          .orderBy('violation.createdAt', 'DESC')
+          .getMany();
+        ids.forEach(id => {
+          const comment = comments.find(x => x.id === id);
+          if (comment) {
+            data.push({
+              comment,
+              violations: violations.filter(x => x.commentId === id)
+            });
+          }
+        });
+      }
+      const resp: CommentQueueResponse = {
+        object: 'list',
+        data,
+        total: Number(total) || 0
+      };
+      res.json(resp);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /** Remove the comment or dismiss the reports, close its open reports */
+  static decideComment = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const action: CommentModerationAction = req.body.action;
+    if (action !== 'dismiss' && action !== 'remove') {
+      res
+        .status(400)
+        .send({ code: 'invalid-action', message: 'Unknown action' });
+      return;
+    }
+    try {
+      const comment = await getRepository(Comment).findOne(
+        Number(req.params.id)
+      );
+      if (!comment) {
+        res.status(404).send('Comment not found');
+        return;
+      }
+      if (action === 'remove' && !comment.isRemoved) {
+        await removeComment(comment, (req.user as Express.User).id);
+      }
+      await getRepository(Violation).update(
+        { commentId: comment.id, status: 'open' },
+        { status: 'closed' }
+      );
+      res.send(comment);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,122 @@
+import { Request, Response, NextFunction } from 'express';
+import { getRepository, In } from 'typeorm';
+import { Notification } from '../entity/Notification';
+import { NotificationPreferences } from '../entity/NotificationPreferences';
+import {
+  NotificationsResponse,
+  NotificationUnreadResponse
+} from '../../src/interfaces';
+import { NOTIFICATION_TYPES } from '../../src/utils/notifications';
+import { getPreferences } from '../notifications';
+
+export default class NotificationController {
+  /** Notifications of the logged in user, the newest first */
+  static all = async (req: Request, res: Response, next: NextFunction) => {
+    const userId = (req.user as Express.User).id;
+    let limit = Number(req.query.limit as string);
+    limit = limit && limit < 51 ? limit : 20;
+    const offset = Number(req.query.offset as string) || 0;
+    try {
+      const repository = getRepository(Notification);
+      const [data, total] = await repository
+        .createQueryBuilder('notification')
+        .where({ userId })
+        .leftJoin('notification.actor', 'actor')
+        .addSelect([
+          'actor.id',
+          'actor.username',
+          'actor.displayName',
+          'actor.photoUrl'
+        ])
+        .orderBy('notification.createdAt', 'DESC')
+        .skip(offset)
+        .take(limit)
+        .getManyAndCount();
+      const resp: NotificationsResponse = {
+        object: 'list',
+        data,
+        total,
+        unreadCount: await repository.count({ userId, isRead: false })
+      };
+      res.send(resp);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  static unread = async (req: Request, res: Response, next: NextFunction) => {
+    const userId = (req.user as Express.User).id;
+    try {
+      const resp: NotificationUnreadResponse = {
+        count: await getRepository(Notification).count({
+          userId,
+          isRead: false
+        })
+      };
+      res.send(resp);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /** Mark the notifications from `ids` as read, all of them without it */
+  static read = async (req: Request, res: Response, next: NextFunction) => {
+    const userId = (req.user as Express.User).id;
+    const { ids } = req.body;
+    try {
+      // `IN ()` is not valid SQL, there is nothing to mark anyway
+      if (!Array.isArray(ids) || ids.length) {
+        const where = Array.isArray(ids)
+          ? { userId, isRead: false, id: In(ids.map(Number)) }
+          : { userId, isRead: false };
+        await getRepository(Notification).update(where, { isRead: true });
+      }
+      const resp: NotificationUnreadResponse = {
+        count: await getRepository(Notification).count({
+          userId,
+          isRead: false
+        })
+      };
+      res.send(resp);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  static preferences = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      res.send(await getPreferences((req.user as Express.User).id));
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /** Change the types from the body, the others stay as they are */
+  static setPreferences = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const userId = (req.user as Express.User).id;
+    try {
+      const repository = getRepository(NotificationPreferences);
+      const preferences = repository.create({
+        userId,
+        ...(await getPreferences(userId))
+      });
+      NOTIFICATION_TYPES.forEach(x => {
+        if (typeof req.body[x] === 'boolean') {
+          preferences[x] = req.body[x];
+        }
+      });
+      await repository.save(preferences);
+      res.send(await getPreferences(userId));
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -3,17 +3,52 @@ import {
   getRepository,
   Repository,
   LessThan,
-  MoreThan,
   SelectQueryBuilder
 } from 'typeorm';
 import { validate } from 'class-validator';
 
-import { StoriesResponse } from '../../src/interfaces';
+import {
+  StoriesResponse,
+  StoryResponse,
+  SearchIn,
+  Scheme,
+  Visibility
+} from '../../src/interfaces';
 import { Story } from '../entity/Story';
 import { postcard } from '../utils/postcard';
 import { User } from '../entity/User';
 import { Like } from '../entity/Like';
 import { Violation } from '../entity/Violation';
+import { Follow } from '../entity/Follow';
+import { StoryRevision } from '../entity/StoryRevision';
+import {
+  CursorValue,
+  decodeCursor,
+  encodeCursor,
+  generateSeed,
+  keyedIdsCache,
+  pageKeyedIds,
+  seededKey,
+  sortKeyedIds
+} from '../utils/pagination';
+import { SEARCH_IN, SearchQuery, getSearchQuery } from '../search';
+import { AbuseViolation, checkPublish } from '../antiAbuse';
+import { autoHide } from '../moderation/autoHide';
+import { saveReport } from '../moderation/saveReport';
+import { cascadeUserBan } from '../moderation/cascadeUserBan';
+import { recordAudit } from '../utils/recordAudit';
+import { notify } from '../notifications';
+import { mailLikeMilestone } from '../mailer/events';
+import { getTrashExpiry, moveToTrash, restoreFromTrash } from '../trash';
+import { highlight, schemeToText, stemText } from '../search/text';
+import { findOrCreateTags, normalizeTags } from '../utils/tags';
+import { getIssuedReplies, verifyScheme } from '../utils/verifyScheme';
+import {
+  getGenerationParams,
+  normalizeGenerationSettings
+} from '../../src/utils/generationSettings';
+import { can } from '../../src/utils/permissions';
+import config from '../config';
 
 const select: (keyof Story)[] = [
   'id',
@@ -24,9 +59,50 @@ const select: (keyof Story)[] = [
   'userId',
   'likesCount',
   'isPublic',
+  'visibility',
+  'violationsCount',
+  'commentsCount',
+  'parentId',
+  'verified',
+  'generationSettings'
+];
+
+/** Fields that can not be changed with `edit` */
+const protectedFields: (keyof Story)[] = [
+  'id',
+  'createdAt',
+  'updatedAt',
+  'editId',
+  'userId',
+  'parentId',
+  'verified',
+  'generationSettings',
+  'postcard',
+  'isPublic',
+  'visibility',
+  'isBanned',
+  'isHidden',
+  'isDeleted',
+  'deletedAt',
+  'moderationStatus',
+  'simhash',
+  'likesCount',
+  'likesMilestone',
+  'violationsCount',
+  'commentsCount'
+];
+
+const visibilities: Visibility[] = ['private', 'unlisted', 'public'];
+
+const orderKeys: ('createdAt' | 'likesCount' | 'violationsCount')[] = [
+  'createdAt',
+  'likesCount',
   'violationsCount'
 ];
 
+/** Sorted ids of the random order by the seed and the filters */
+const randomOrder = keyedIdsCache({ ttl: 30 * 60 * 1000, max: 200 });
+
 const updateQuery = (
   queryBuilder: SelectQueryBuilder<Story | Violation>,
   opt: {
@@ -35,92 +111,476 @@ const updateQuery = (
     isDeleted?: boolean;
   } = {}
 ) => {
-  const where: Record<string, any> = {};
-
-  if (opt.afterDate) {
-    where.createdAt = MoreThan(new Date(Number(opt.afterDate)).toISOString());
+  // named parameters only: sqlite binds the values of the object conditions
+  // before the parameters of the joins, which breaks the joins with parameters
+  queryBuilder
+    .where('story.isDeleted = :isDeleted', { isDeleted: !!opt.isDeleted })
+    .andWhere('story.isBanned = :isBanned', { isBanned: false });
+  if (opt.isPublic === undefined || opt.isPublic) {
+    queryBuilder.andWhere(
+      'story.isPublic = :isPublic AND story.isHidden = :isHidden',
+      { isPublic: true, isHidden: false }
+    );
   }
-  where.isPublic = true;
-  where.isDeleted = false;
-  where.isBanned = false;
-  if (opt.isPublic !== undefined && !opt.isPublic) {
-    delete where.isPublic;
+  if (opt.afterDate) {
+    queryBuilder.andWhere('story.createdAt > :afterDate', {
+      afterDate: new Date(Number(opt.afterDate)).toISOString()
+    });
   }
-  // const whereString = Object.keys(where)
-  //   .map(x => `story.${x} = :${x}`)
-  //   .join(' AND ');
 
-  queryBuilder.where(where).addSelect(select.map(x => `story.${x}`));
+  queryBuilder
+    .addSelect(select.map(x => `story.${x}`))
+    .leftJoin('story.tags', 'tag')
+    .addSelect(['tag.id', 'tag.name']);
   // .innerJoin('story.user', 'u');
   // .andWhere('u.isBanned = :isBanned', { isBanned: false })
   // .addSelect(['u.isBanned']);
   return queryBuilder;
 };
 
+const getVisibility = (story: Story): Visibility =>
+  story.visibility || (story.isPublic ? 'public' : 'unlisted');
+
+/** The author, a moderator or anyone with the secret edit link */
+const canManage = (req: Request, story: Story) => {
+  const user = req.user;
+  if (
+    user &&
+    (can(user, 'story:manage') || (story.userId && story.userId === user.id))
+  ) {
+    return true;
+  }
+  const editId = (req.body && req.body.editId) || req.query.editId;
+  return !!editId && editId === story.editId;
+};
+
+/** Return the error code when the visibility can not be set */
+const setVisibility = (story: Story, value: unknown, hasAuthor: boolean) => {
+  if (!visibilities.includes(value as Visibility)) {
+    return 'invalid-visibility';
+  }
+  if (value === 'public' && !hasAuthor) {
+    return 'login-required';
+  }
+  story.visibility = value as Visibility;
+  story.isPublic = value === 'public';
+};
+
+const sendVisibilityError = (res: Response, code: string) => {
+  res.status(code === 'login-required' ? 403 : 400).send({
+    code,
+    message:
+      code === 'login-required'
+        ? 'Only logged in authors can publish to the gallery'
+        : 'Invalid visibility'
+  });
+};
+
+const sendTrashExpired = (res: Response) => {
+  res.status(410).send({
+    code: 'trash-expired',
+    message: 'The story is deleted for good'
+  });
+};
+
+/** Reply 500 to the unexpected errors unless the response is sent */
+const sendSaveError = (res: Response, error: unknown) => {
+  if (!res.headersSent) {
+    res.status(500).send({ message: "can't save story", error });
+  }
+};
+
+const saveRevision = async (story: Story, userId?: number) => {
+  const revision = new StoryRevision();
+  revision.storyId = story.id;
+  revision.userId = userId;
+  revision.content = story.content;
+  await getRepository(StoryRevision).save(revision);
+};
+
+const checkGenerated = async (req: Request, story: Story, parent?: Story) => {
+  const userId = req.user && req.user.id;
+  const sessionId = req.get('X-Session-Id');
+  const replies = await getIssuedReplies({ userId, sessionId });
+  if (parent && parent.verified) {
+    // AI fragments of the parent story were checked when it was published
+    replies.push(
+      ...(JSON.parse(parent.content) as Scheme)
+        .filter(x => x[1] === 1)
+        .map(x => x[0])
+    );
+  }
+  return verifyScheme(JSON.parse(story.content), replies);
+};
+
+/** Reject the story breaking an anti-abuse rule */
+const sendAbuseViolation = async (
+  res: Response,
+  violation: AbuseViolation,
+  user?: User
+) => {
+  if (violation.banUser && user) {
+    // automatically ban users who save the same thing many times
+    user.isBanned = true;
+    await getRepository(User).save(user);
+    await cascadeUserBan(user, null, { reason: 'duplicates' });
+  }
+  if (violation.retryAfter) {
+    res.set('Retry-After', String(violation.retryAfter));
+  }
+  res
+    .status(violation.status)
+    .send({ code: violation.code, message: violation.message });
+};
+
+/**
+ * Check the author and save a new story with its first revision and postcard.
+ * Unexpected errors are thrown to the caller, see `sendSaveError`.
+ */
+const publish = async (
+  req: Request,
+  res: Response,
+  story: Story,
+  parent?: Story
+) => {
+  let newStory: Story | undefined;
+  let user: User | undefined;
+  const userId = req.user && req.user.id;
+  const repository = getRepository(Story);
+  const { generationSettings, visibility } = req.body;
+  const visibilityError = setVisibility(
+    story,
+    visibility || 'unlisted',
+    !!userId
+  );
+  if (visibilityError) {
+    sendVisibilityError(res, visibilityError);
+    return;
+  }
+  story.generationSettings = generationSettings
+    ? getGenerationParams(normalizeGenerationSettings(generationSettings))
+    : null;
+  try {
+    story.verified = await checkGenerated(req, story, parent);
+  } catch (error) {
+    res
+      .status(400)
+      .send({ code: 'invalid-content', message: 'Invalid content' });
+    return;
+  }
+  if (!story.verified && config.get('generator.verification') === 'reject') {
+    res.status(422).send({
+      code: 'unverified',
+      message: 'AI fragments were not issued by the generator'
+    });
+    return;
+  }
+  if (userId) {
+    user = await getRepository(User).findOne(userId);
+
+    if (!user) {
+      res.status(400).send();
+      return;
+    }
+    story.user = user;
+    story.userId = user.id;
+
+    if (user.isBanned) {
+      res.status(403).send();
+      return;
+    }
+
+    // Validate if the parameters are ok
+    const errors = await validate(story);
+    if (errors.length > 0) {
+      res.status(400).send(errors);
+      return;
+    }
+  }
+  const violation = await checkPublish(req, story, parent);
+  if (violation) {
+    await sendAbuseViolation(res, violation, user);
+    return;
+  }
+  try {
+    newStory = await repository.save(story);
+    await saveRevision(newStory, userId);
+  } catch (error) {
+    res.status(500).send({ message: "can't save story", error });
+    return;
+  }
+  // the author of the parent could not open a private fork
+  if (parent && getVisibility(newStory) !== 'private') {
+    await notify({
+      userId: parent.userId,
+      type: 'fork',
+      actorId: userId,
+      storyId: newStory.id,
+      details: { parentId: parent.id }
+    });
+  }
+  try {
+    // story after first save to get `id` for name
+    const postcardPath = await postcard(newStory);
+    story.postcard = postcardPath;
+    newStory = await repository.save(story);
+  } catch (error) {
+    // res.status(500).send({ message: 'postcard create error', error });
+    // return;
+  }
+  try {
+    newStory = await repository.save(story);
+    res.send(newStory);
+  } catch (error) {
+    res.status(500).send({ message: "can't save story", error });
+  }
+};
+
+/** Move the story to the trash or restore it within the retention period */
+const setDeleted = (isDeleted: boolean) => async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const userId = req.user && req.user.id;
+  try {
+    const repository = getRepository(Story);
+    let story = await repository.findOne(req.params.id);
+    if (!story || !canManage(req, story)) {
+      res.status(404).send('Story not found');
+      return;
+    }
+    if (!!story.isDeleted !== isDeleted) {
+      if (isDeleted) {
+        moveToTrash(story);
+      } else if (!restoreFromTrash(story)) {
+        sendTrashExpired(res);
+        return;
+      }
+      story = await repository.save(story);
+      await recordAudit({
+        actorId: userId,
+        action: isDeleted ? 'story:delete' : 'story:restore',
+        targetType: 'story',
+        targetId: story.id,
+        details: userId ? {} : { editLink: true }
+      });
+    }
+    const resp: StoryResponse = {
+      ...story,
+      expiresAt: getTrashExpiry(story)
+    };
+    res.send(resp);
+  } catch (error) {
+    next(error);
+  }
+};
+
 export default class StoryController {
+  static delete = setDeleted(true);
+
+  static restore = setDeleted(false);
+
   static all = async (req: Request, res: Response, next: NextFunction) => {
-    // @ts-ignore
     const userId = req.user && req.user.id;
-    const offset = Number(req.query.offset as string);
+    const cursorParam = req.query.cursor as string;
+    const seedParam = req.query.seed as string;
     const queryParam = req.query.query as string;
+    const searchIn = (req.query.searchIn || 'all') as SearchIn;
     const tagsParam = req.query.tags as string;
+    const author = Number(req.query.author);
 
     const filter = req.query.filter;
-    const my = filter === 'my';
+    const trash = filter === 'trash';
+    const my = filter === 'my' || trash;
+    // the filters by the user's likes and subscriptions need the user too
+    const personal = my || filter === 'favorite' || filter === 'following';
+    if (!SEARCH_IN.includes(searchIn)) {
+      res.status(400).send('Invalid searchIn');
+      return;
+    }
+    if (personal && userId === undefined) {
+      res.status(401).send();
+      return;
+    }
 
     const afterDate = req.query.afterDate as string;
     let limit = Number(req.query.limit as string);
     limit = limit && limit < 21 ? limit : 20;
     const orderBy = req.query.orderBy as string;
+
+    let cursor: [CursorValue, string] | undefined;
+    if (cursorParam) {
+      try {
+        cursor = decodeCursor(cursorParam);
+      } catch (er) {
+        res.status(400).send('Invalid cursor');
+        return;
+      }
+    }
     // // Get stories from database
     try {
       const repository = getRepository(Story);
       const list = repository.createQueryBuilder('story');
       updateQuery(list, {
         afterDate,
-        isPublic: !my
+        isPublic: !my,
+        isDeleted: trash
       });
-      list.take(limit);
-      if (offset) {
-        list.skip(offset);
+      if (trash) {
+        list.addSelect(['story.isDeleted', 'story.deletedAt']);
       }
-      if (orderBy) {
-        orderBy.split(',').forEach(x => {
-          if (x === 'RAND()') {
-            list.orderBy('random()');
-          } else {
-            list.orderBy(`story.${x}`, 'DESC');
-          }
-        });
+      if (author && !my) {
+        list.andWhere('story.userId = :author', { author });
       }
-      list.addOrderBy('story.createdAt', 'DESC');
       if (userId !== undefined) {
-        if (filter === 'my') {
+        if (my) {
           list.andWhere('userId = :userId', { userId });
         } else if (filter === 'favorite') {
           list
             .leftJoinAndSelect('story.likes', 'like')
             .andWhere('like.userId = :userId', { userId });
+        } else if (filter === 'following') {
+          list.innerJoin(
+            Follow,
+            'follow',
+            'follow.authorId = story.userId AND follow.followerId = :userId',
+            { userId }
+          );
         }
       }
+      let search: SearchQuery | undefined;
       if (queryParam) {
-        list.andWhere('story.content like :query', {
-          query: `%${queryParam}%`
-        });
+        search = getSearchQuery(repository.manager, queryParam, searchIn);
+        if (!search) {
+          const resp: StoriesResponse = {
+            object: 'list',
+            data: [],
+            nextCursor: null
+          };
+          res.json(resp);
+          return;
+        }
+        list.innerJoin(
+          `(${search.query})`,
+          'search',
+          'search.id = story.id',
+          search.parameters
+        );
       }
-      if (tagsParam) {
-        tagsParam.split(',').forEach(x => {
-          list.andWhere(`story.content LIKE '%${x}%'`);
+      // one join for every tag leaves only the stories having all of them
+      normalizeTags(tagsParam).forEach((x, i) => {
+        list.innerJoin(
+          'story.tags',
+          `filterTag${i}`,
+          `filterTag${i}.name = :filterTag${i}`,
+          { [`filterTag${i}`]: x }
+        );
+      });
+
+      let results: Story[];
+      let nextCursor: string | null = null;
+      let seed: string | undefined;
+      const rankBy = orderBy === 'relevance' && !!search;
+      if (orderBy === 'RAND()' || rankBy) {
+        // Order ids by the search rank or by the seeded hash.
+        // The seed fixes the random order, so the next pages continue it
+        const randomSeed = seedParam || generateSeed();
+        const getKey = (row: { id: string; rank?: number }) =>
+          rankBy ? Number(row.rank) || 0 : seededKey(randomSeed, row.id);
+        // the next pages of the random order take the ids from the cache
+        const cacheKey = rankBy
+          ? undefined
+          : JSON.stringify([
+              randomSeed,
+              userId,
+              filter,
+              author,
+              afterDate,
+              queryParam,
+              searchIn,
+              tagsParam
+            ]);
+        let sorted = cacheKey && cursor ? randomOrder.get(cacheKey) : undefined;
+        if (!sorted) {
+          const ids = list
+            .clone()
+            .select('story.id', 'id')
+            .distinct(true);
+          if (rankBy) {
+            ids.addSelect('search.rank', 'rank');
+          }
+          const rows: { id: string; rank?: number }[] = await ids.getRawMany();
+          sorted = sortKeyedIds(rows.map(x => ({ id: x.id, key: getKey(x) })));
+          if (cacheKey) {
+            randomOrder.set(cacheKey, sorted);
+          }
+        }
+        const page = pageKeyedIds(sorted, limit, cursor);
+        const pageIds = page.slice(0, limit).map(x => x.id);
+        if (page.length > limit) {
+          const last = page[limit - 1];
+          nextCursor = encodeCursor(last.key, last.id);
+        }
+        results = pageIds.length
+          ? await list
+              .andWhere('story.id IN (:...pageIds)', { pageIds })
+              .getMany()
+          : [];
+        results.sort((a, b) => pageIds.indexOf(a.id) - pageIds.indexOf(b.id));
+        if (!rankBy) {
+          seed = randomSeed;
+        }
+      } else {
+        const orderKey = orderKeys.find(x => x === orderBy) || 'createdAt';
+        list
+          .orderBy(`story.${orderKey}`, 'DESC')
+          .addOrderBy('story.id', 'DESC');
+        if (cursor) {
+          list.andWhere(
+            `(story.${orderKey} < :cursorValue OR (story.${orderKey} = :cursorValue AND story.id < :cursorId))`,
+            { cursorValue: cursor[0], cursorId: cursor[1] }
+          );
+        }
+        list.take(limit + 1);
+        const { entities, raw } = await list.getRawAndEntities();
+        results = entities;
+        if (results.length > limit) {
+          results = results.slice(0, limit);
+          const last = results[limit - 1];
+          // take the value as the database stores it to compare it later
+          const lastRaw = raw.find(x => x.story_id === last.id);
+          let value = lastRaw ? lastRaw[`story_${orderKey}`] : last[orderKey];
+          if (value instanceof Date) {
+            value = value.toISOString();
+          }
+          nextCursor = encodeCursor(value, last.id);
+        }
+      }
+
+      if (queryParam) {
+        const stems = stemText(queryParam);
+        results.forEach(x => {
+          const text = schemeToText(JSON.parse(x.content), searchIn);
+          (x as StoryResponse).highlight = highlight(text, stems);
         });
       }
 
-      const results = await list.getMany();
+      if (trash) {
+        results.forEach(x => {
+          (x as StoryResponse).expiresAt = getTrashExpiry(x);
+        });
+      }
 
       if (req.accepts('json')) {
         const resp: StoriesResponse = {
           object: 'list',
-          data: results
+          data: results,
+          nextCursor
         };
+        if (seed) {
+          resp.seed = seed;
+        }
         res.json(resp);
       }
     } catch (err) {
@@ -129,8 +589,7 @@ export default class StoryController {
   };
 
   static one = async (req: Request, res: Response) => {
-    // @ts-ignore
-    const isSuperuser = req.user && req.user.isSuperuser;
+    const isModerator = can(req.user, 'story:moderate');
     //Get the ID from the url
     const id: string = req.params.id;
     const repository = getRepository(Story);
@@ -140,9 +599,17 @@ export default class StoryController {
         .where({
           id
         })
-        .select(select.map(x => `story.${x}`));
+        .select(select.map(x => `story.${x}`))
+        .addSelect([
+          'story.editId',
+          'story.isBanned',
+          'story.isDeleted',
+          'story.deletedAt'
+        ])
+        .leftJoin('story.tags', 'tag')
+        .addSelect(['tag.id', 'tag.name']);
 
-      if (isSuperuser) {
+      if (isModerator) {
         storyRep
           .leftJoin('story.user', 'u')
           .addSelect([
@@ -155,10 +622,17 @@ export default class StoryController {
       }
 
       const story = await storyRep.getOne();
-      if (story) {
+      const editable = !!story && canManage(req, story);
+      const isVisible =
+        !!story &&
+        getVisibility(story) !== 'private' &&
+        !story.isBanned &&
+        !story.isDeleted;
+      if (story && (editable || isVisible)) {
         story.viewsCount = story.viewsCount + 1;
         repository.save(story);
-        res.send(story);
+        // the edit link is secret
+        res.send(editable ? story : { ...story, editId: undefined });
       } else {
         res.status(404).send('Story not found');
       }
@@ -168,85 +642,120 @@ export default class StoryController {
   };
 
   static create = async (req: Request, res: Response) => {
-    const { content, description } = req.body;
+    const { content, description, tags } = req.body;
     const story = new Story();
-    let newStory: Story | undefined;
     story.content = content;
     story.description = description;
-    // @ts-ignore
-    const userId = req.user && req.user.id;
-    const repository = getRepository(Story);
-    if (userId) {
-      const userRepository = getRepository(User);
-      const user = await userRepository.findOne(userId);
-
-      if (!user) {
-        res.status(400).send();
-        return;
-      }
-      story.user = user;
-
-      if (user.isBanned) {
-        res.status(403).send();
-        return;
-      }
-
-      // Validate if the parameters are ok
-      const errors = await validate(story);
-      if (errors.length > 0) {
-        res.status(400).send(errors);
-        return;
-      }
+    try {
+      story.tags = await findOrCreateTags(normalizeTags(tags));
+      await publish(req, res, story);
+    } catch (error) {
+      sendSaveError(res, error);
+    }
+  };
 
-      const exist = await repository
-        .createQueryBuilder('story')
-        .where({
-          userId,
-          content,
-          isPublic: true
-        })
-        .getCount();
-
-      if (exist) {
-        if (exist < 20) {
-          story.isDeleted = true;
-        } else {
-          // automatically ban users who save the same thing many times
-          user.isBanned = true;
-          await userRepository.save(user);
-
-          // need for that banned user does not immediately guess that something is wrong
-          res.send(story);
-          return;
-        }
-      }
+  static fork = async (req: Request, res: Response) => {
+    const { content, description, tags } = req.body;
+    const repository = getRepository(Story);
+    let parent: Story | undefined;
+    try {
+      parent = await repository.findOne(req.params.id, {
+        select: [
+          'id',
+          'userId',
+          'editId',
+          'content',
+          'isPublic',
+          'visibility',
+          'isDeleted',
+          'isBanned',
+          'verified'
+        ]
+      });
+    } catch (error) {
+      res.status(500).send(error);
+      return;
     }
+    if (
+      !parent ||
+      parent.isDeleted ||
+      parent.isBanned ||
+      (getVisibility(parent) === 'private' && !canManage(req, parent))
+    ) {
+      res.status(404).send('Story not found');
+      return;
+    }
+    const story = new Story();
+    story.parentId = parent.id;
+    story.content = content || parent.content;
+    story.description = description;
     try {
-      newStory = await repository.save(story);
+      const parentText = schemeToText(JSON.parse(parent.content));
+      if (!schemeToText(JSON.parse(story.content)).startsWith(parentText)) {
+        res.status(400).send({
+          code: 'fork-prefix',
+          message: 'Fork must continue the parent story'
+        });
+        return;
+      }
     } catch (error) {
-      res.status(500).send({ message: "can't save story", error });
+      res
+        .status(400)
+        .send({ code: 'invalid-content', message: 'Invalid content' });
       return;
     }
     try {
-      // story after first save to get `id` for name
-      const postcardPath = await postcard(newStory);
-      story.postcard = postcardPath;
-      newStory = await repository.save(story);
+      story.tags = await findOrCreateTags(normalizeTags(tags));
+      await publish(req, res, story, parent);
     } catch (error) {
-      // res.status(500).send({ message: 'postcard create error', error });
-      // return;
+      sendSaveError(res, error);
     }
+  };
+
+  static forks = async (req: Request, res: Response, next: NextFunction) => {
     try {
-      newStory = await repository.save(story);
-      res.send(newStory);
+      const list = getRepository(Story).createQueryBuilder('story');
+      updateQuery(list);
+      const forks = await list
+        .andWhere('story.parentId = :parentId', { parentId: req.params.id })
+        .orderBy('story.createdAt', 'DESC')
+        .take(50)
+        .getMany();
+      const resp: StoriesResponse = {
+        object: 'list',
+        data: forks,
+        nextCursor: null
+      };
+      res.json(resp);
+    } catch (err) {
+      next(err);
+    }
+  };
+
+  static revisions = async (req: Request, res: Response) => {
+    let story: Story;
+    try {
+      story = await getRepository(Story).findOneOrFail(req.params.id, {
+        select: ['id', 'userId', 'editId']
+      });
     } catch (error) {
-      res.status(500).send({ message: "can't save story", error });
+      res.status(404).send('Story not found');
+      return;
+    }
+    if (!canManage(req, story)) {
+      res.status(403).send('Not permitted');
+      return;
     }
+    const revisions = await getRepository(StoryRevision).find({
+      where: { storyId: story.id },
+      select: ['id', 'userId', 'content', 'createdAt'],
+      order: { createdAt: 'DESC' }
+    });
+    res.send(revisions);
   };
 
   static like = async (req: Request, res: Response) => {
     const storyId = req.params.id;
-    // @ts-ignore
     const userId = req.user && req.user.id;
     const storyRepository = getRepository(Story);
     const likeReposytory = getRepository(Like);
@@ -265,6 +774,14 @@ export default class StoryController {
       like.story = story;
 
       await likeReposytory.save(like);
+      await notify({
+        userId: story.userId,
+        type: 'like',
+        actorId: user.id,
+        storyId: story.id
+      });
+      // the entity hook has counted the like in another instance
+      await mailLikeMilestone(story, story.likesCount + 1);
 
       res.status(200).send();
     } catch (error) {
@@ -272,40 +789,28 @@ export default class StoryController {
     }
   };
 
-  static violation = async (req: Request, res: Response) => {
-    const storyId = req.params.id;
-    // @ts-ignore
-    const isSuperuser = req.user && req.user.isSuperuser;
-    // @ts-ignore
-    const userId = req.user && req.user.id;
-    const storyRepository = getRepository(Story);
-    const violationReposytory = getRepository(Violation);
-    const userReposytory = getRepository(User);
+  static violation = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
     try {
-      const story = await storyRepository.findOneOrFail(storyId);
-
-      if (isSuperuser) {
-        story.isBanned = true;
-        await storyRepository.save(story);
+      const story = await getRepository(Story).findOne(req.params.id);
+      if (!story) {
+        res.status(404).send('Story not found');
+        return;
       }
-
-      const violation = new Violation();
-      violation.story = story;
-
-      if (userId) {
-        const user = await userReposytory.findOne(userId);
-        violation.user = user;
+      if (await saveReport(req, res, { storyId: story.id })) {
+        await autoHide(story.id);
+        res.status(200).send();
       }
-      await violationReposytory.save(violation);
-      res.status(200).send();
     } catch (error) {
-      res.status(500).send(error);
+      next(error);
     }
   };
 
   static dislike = async (req: Request, res: Response) => {
     const storyId = req.params.id;
-    // @ts-ignore
     const userId = req.user && req.user.id;
     const likeReposytory = getRepository(Like);
     try {
@@ -319,10 +824,17 @@ export default class StoryController {
 
   static edit = async (req: Request, res: Response) => {
     const id = req.params.id;
-    const { editId, ...params } = req.body;
-    // @ts-ignore
+    // `editId` is checked by `canManage`
+    const {
+      editId,
+      tags,
+      visibility,
+      isPublic,
+      isDeleted,
+      ...params
+    } = req.body;
+    let contentChanged = false;
     const userId = req.user && req.user.id;
-    let user: User | undefined;
 
     const repository = getRepository(Story);
     let story: Story;
@@ -332,27 +844,91 @@ export default class StoryController {
       res.status(404).send('Story not found');
       return;
     }
-    if (userId) {
-      const userReposytory = getRepository(User);
-      user = await userReposytory.findOne(userId);
-    }
-    const isSuperuser = user && user.isSuperuser;
-    const isOwner = user && story.userId !== user.id;
-    if (!user && !isSuperuser && !isOwner) {
+    if (!canManage(req, story)) {
       res.status(403).send('Not permitted');
       return;
     }
-    // } else if (story.editId !== editId) {
-    //   res.status(404).send('No `editId`');
-    //   return;
-    // }
+    const oldVisibility = getVisibility(story);
+    const wasDeleted = story.isDeleted;
+    // old clients switch `isPublic` only
+    const newVisibility =
+      visibility !== undefined
+        ? visibility
+        : isPublic !== undefined
+        ? isPublic
+          ? 'public'
+          : 'unlisted'
+        : undefined;
+    if (newVisibility !== undefined) {
+      const visibilityError = setVisibility(
+        story,
+        newVisibility,
+        !!story.userId
+      );
+      if (visibilityError) {
+        sendVisibilityError(res, visibilityError);
+        return;
+      }
+    }
     // Validate the new values on model
     for (const p in params) {
-      if (p in story) {
+      if (p === 'content' && params[p] !== story.content) {
+        contentChanged = true;
+      }
+      if (p in story && !protectedFields.includes(p as keyof Story)) {
         // @ts-ignore
         story[p] = params[p];
       }
     }
+    if (tags !== undefined) {
+      try {
+        story.tags = await findOrCreateTags(normalizeTags(tags));
+      } catch (error) {
+        sendSaveError(res, error);
+        return;
+      }
+    }
+    if (isDeleted !== undefined && !!isDeleted !== !!story.isDeleted) {
+      if (isDeleted) {
+        moveToTrash(story);
+      } else if (!restoreFromTrash(story)) {
+        sendTrashExpired(res);
+        return;
+      }
+    }
+    if (contentChanged) {
+      try {
+        story.verified = await checkGenerated(req, story);
+      } catch (error) {
+        res
+          .status(400)
+          .send({ code: 'invalid-content', message: 'Invalid content' });
+        return;
+      }
+    }
+    // the changed text and the newly public story pass the publish checks
+    const becamePublic =
+      getVisibility(story) === 'public' && oldVisibility !== 'public';
+    if (contentChanged || becamePublic) {
+      try {
+        const parent = story.parentId
+          ? await repository.findOne(story.parentId, {
+              select: ['id', 'content']
+            })
+          : undefined;
+        const violation = await checkPublish(req, story, parent);
+        if (violation) {
+          const user = userId
+            ? await getRepository(User).findOne(userId)
+            : undefined;
+          await sendAbuseViolation(res, violation, user);
+          return;
+        }
+      } catch (error) {
+        sendSaveError(res, error);
+        return;
+      }
+    }
     const errors = await validate(story);
     if (errors.length > 0) {
       res.status(400).send(errors);
@@ -361,28 +937,74 @@ export default class StoryController {
 
     try {
       story = await repository.save(story);
+      if (contentChanged) {
+        await saveRevision(story, userId);
+      }
     } catch (e) {
       res.status(409).send("can't save story");
       return;
     }
+    // without the user the story was changed with the secret edit link
+    const auditContext = userId ? {} : { editLink: true };
+    if (getVisibility(story) !== oldVisibility) {
+      await recordAudit({
+        actorId: userId,
+        action: 'story:visibility',
+        targetType: 'story',
+        targetId: story.id,
+        details: {
+          ...auditContext,
+          from: oldVisibility,
+          to: getVisibility(story)
+        }
+      });
+    }
+    if (!!story.isDeleted !== !!wasDeleted) {
+      await recordAudit({
+        actorId: userId,
+        action: story.isDeleted ? 'story:delete' : 'story:restore',
+        targetType: 'story',
+        targetId: story.id,
+        details: auditContext
+      });
+    }
     res.send(story);
   };
 
-  static delete = async (req: Request, res: Response) => {
-    // Get the ID from the url
-    const id = req.params.id;
-
-    const repository = getRepository(Story);
+  /**
+   * Attach the stories created anonymously in this browser to the user.
+   * The browser proves the authorship with the secret `editId`.
+   */
+  static claim = async (req: Request, res: Response, next: NextFunction) => {
+    const userId = (req.user as Express.User).id;
+    const stories: unknown[] = Array.isArray(req.body.stories)
+      ? req.body.stories.slice(0, 100)
+      : [];
+    const claimed: string[] = [];
     try {
-      await repository.findOneOrFail(id);
+      const repository = getRepository(Story);
+      for (const item of stories as { id?: unknown; editId?: unknown }[]) {
+        if (
+          !item ||
+          typeof item.id !== 'string' ||
+          typeof item.editId !== 'string'
+        ) {
+          continue;
+        }
+        const story = await repository.findOne({
+          id: item.id,
+          editId: item.editId
+        });
+        if (story && !story.userId) {
+          story.userId = userId;
+          await repository.save(story);
+          claimed.push(story.id);
+        }
+      }
+      res.send({ claimed });
     } catch (error) {
-      res.status(404).send('Story not found');
-      return;
+      next(error);
     }
-    repository.delete(id);
-
-    // After all send a 204 (no content, but accepted) response
-    res.status(204).send();
   };
 
   static postcard = async (req: Request, res: Response) => {
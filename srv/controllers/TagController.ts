@@ -0,0 +1,45 @@
+import { Request, Response, NextFunction } from 'express';
+import { getRepository } from 'typeorm';
+
+import { TagResponse } from '../../src/interfaces';
+import { Tag } from '../entity/Tag';
+import { normalizeTags } from '../utils/tags';
+
+export default class TagController {
+  static all = async (req: Request, res: Response, next: NextFunction) => {
+    const query = normalizeTags(req.query.query as string)[0];
+    let limit = Number(req.query.limit as string);
+    limit = limit && limit < 101 ? limit : 20;
+    try {
+      const list = getRepository(Tag)
+        .createQueryBuilder('tag')
+        // count only the stories visible in the gallery
+        .innerJoin(
+          'tag.stories',
+          'story',
+          'story.isPublic = :isPublic AND story.isDeleted = :isDeleted AND story.isBanned = :isBanned AND story.isHidden = :isHidden',
+          { isPublic: true, isDeleted: false, isBanned: false, isHidden: false }
+        )
+        .select('tag.name', 'name')
+        .addSelect('COUNT(story.id)', 'count')
+        .groupBy('tag.name')
+        .orderBy('count', 'DESC')
+        .addOrderBy('tag.name', 'ASC')
+        .limit(limit);
+      if (query) {
+        list.where('tag.name LIKE :query', { query: `${query}%` });
+      }
+      const rows: {
+        name: string;
+        count: string | number;
+      }[] = await list.getRawMany();
+      const tags: TagResponse[] = rows.map(x => ({
+        name: x.name,
+        count: Number(x.count)
+      }));
+      res.json(tags);
+    } catch (err) {
+      next(err);
+    }
+  };
+}
@@ -1,17 +1,23 @@
-import { Request, Response } from 'express';
+import { Request, Response, NextFunction } from 'express';
 import { getRepository } from 'typeorm';
 import { validate } from 'class-validator';
 
 import { User } from '../entity/User';
 import { Like } from '../entity/Like';
-// import { Story } from '../entity/Story';
+import { Story } from '../entity/Story';
+import { Follow } from '../entity/Follow';
+import { UserProfile } from '../../src/interfaces';
+import { normalizeGenerationSettings } from '../../src/utils/generationSettings';
+import { can, getRole, ROLES } from '../../src/utils/permissions';
+import { cascadeUserBan } from '../moderation/cascadeUserBan';
+import { recordAudit } from '../utils/recordAudit';
 
 class UserController {
   static listAll = async (req: Request, res: Response) => {
     //Get users from database
     const userRepository = getRepository(User);
     const users = await userRepository.find({
-      select: ['uid', 'username', 'isSuperuser'] //We dont want to send the passwords on response
+      select: ['uid', 'username', 'isSuperuser', 'role'] //We dont want to send the passwords on response
     });
 
     //Send the users object
@@ -26,15 +32,83 @@ class UserController {
     const userRepository = getRepository(User);
     try {
       await userRepository.findOneOrFail(id, {
-        select: ['uid', 'username', 'isSuperuser'] //We dont want to send the password on response
+        select: ['uid', 'username', 'isSuperuser', 'role'] //We dont want to send the password on response
       });
     } catch (error) {
       res.status(404).send('User not found');
     }
   };
 
+  /**
+   * Public profile by the id or, for the links like `/u/:username`,
+   * by the username. Returns the first registered of the namesakes.
+   */
+  static profile = async (req: Request, res: Response, next: NextFunction) => {
+    const param = req.params.id;
+    const select: (keyof User)[] = [
+      'id',
+      'username',
+      'displayName',
+      'photoUrl',
+      'bio',
+      'createdAt',
+      'isBanned'
+    ];
+    try {
+      const userRepository = getRepository(User);
+      let user = /^[0-9]+$/.test(param)
+        ? await userRepository.findOne(Number(param), { select })
+        : undefined;
+      if (!user) {
+        user = await userRepository.findOne({
+          where: { username: param },
+          select,
+          order: { id: 'ASC' }
+        });
+      }
+      if (!user || (user.isBanned && !can(req.user, 'user:ban'))) {
+        res.status(404).send('User not found');
+        return;
+      }
+      const counts = await getRepository(Story)
+        .createQueryBuilder('story')
+        .select('COUNT(story.id)', 'storiesCount')
+        .addSelect('SUM(story.likesCount)', 'likesCount')
+        .where({
+          userId: user.id,
+          isPublic: true,
+          isDeleted: false,
+          isBanned: false,
+          isHidden: false
+        })
+        .getRawOne();
+      const followRepository = getRepository(Follow);
+      const viewerId = req.user && req.user.id;
+      const profile: UserProfile = {
+        id: user.id,
+        username: user.username,
+        displayName: user.displayName,
+        photoUrl: user.photoUrl,
+        bio: user.bio,
+        createdAt: user.createdAt,
+        storiesCount: Number(counts.storiesCount) || 0,
+        likesCount: Number(counts.likesCount) || 0,
+        followersCount: await followRepository.count({ authorId: user.id }),
+        followingCount: await followRepository.count({ followerId: user.id }),
+        isFollowing:
+          !!viewerId &&
+          !!(await followRepository.count({
+            followerId: viewerId,
+            authorId: user.id
+          }))
+      };
+      res.send(profile);
+    } catch (error) {
+      next(error);
+    }
+  };
+
   static likes = async (req: Request, res: Response) => {
-    // @ts-ignore
     const userId = req.user && req.user.id;
 
     //Get the user from database
@@ -83,15 +157,19 @@ class UserController {
   };
 
   static editUser = async (req: Request, res: Response) => {
-    // @ts-ignore
-    const isSuperuser = req.user && req.user.isSuperuser;
     //Get the ID from the url
     const id = req.params.id;
 
-    // @ts-ignore
     const userId = req.user && req.user.id;
     //Get values from the body
-    const { username, isBanned } = req.body;
+    const {
+      username,
+      displayName,
+      bio,
+      isBanned,
+      role,
+      generationSettings
+    } = req.body;
 
     //Try to find user on database
     const userRepository = getRepository(User);
@@ -104,27 +182,58 @@ class UserController {
       return;
     }
 
-    const isOwner = user && userId === user.id;
-    if (!user && !isSuperuser && !isOwner) {
+    const isOwner = userId === user.id;
+    if (!isOwner && !can(req.user, 'user:ban')) {
       res.status(403).send('Not permitted');
       return;
     }
 
-    if (isSuperuser && isBanned !== user.isBanned) {
-      user.isBanned = isBanned;
+    const banChanged =
+      isBanned !== undefined &&
+      !!isBanned !== user.isBanned &&
+      can(req.user, 'user:ban');
+    if (banChanged) {
+      // a moderator can not ban another moderator or an admin
+      const actorRank = ROLES.indexOf(getRole(req.user as Express.User));
+      if (ROLES.indexOf(getRole(user)) >= actorRank) {
+        res.status(403).send({
+          code: 'role-too-high',
+          message: 'Can not ban a user with the same or a higher role'
+        });
+        return;
+      }
+      user.isBanned = !!isBanned;
+    }
+
+    const oldRole = getRole(user);
+    if (role !== undefined && can(req.user, 'user:set-role')) {
+      if (!ROLES.includes(role)) {
+        res.status(400).send({ code: 'invalid-role', message: 'Unknown role' });
+        return;
+      }
+      user.role = role;
+      user.isSuperuser = role === 'admin';
+    }
 
-      // if (isBanned) {
-      //   await getRepository(Story)
-      //     .createQueryBuilder('story')
-      //     .where({
-      //       userId: user.id
-      //     })
-      //     .update({ isDeleted: isBanned });
-      // }
+    if (isOwner && generationSettings !== undefined) {
+      user.generationSettings = generationSettings
+        ? normalizeGenerationSettings(generationSettings)
+        : null;
     }
 
     //Validate the new values on model
-    user.username = username;
+    if (isOwner || can(req.user, 'user:manage')) {
+      if (username !== undefined) {
+        user.username = username;
+      }
+      if (displayName !== undefined) {
+        user.displayName =
+          (displayName && String(displayName).trim()) || null;
+      }
+      if (bio !== undefined) {
+        user.bio = (bio && String(bio).trim()) || null;
+      }
+    }
     const errors = await validate(user);
     if (errors.length > 0) {
       res.status(400).send(errors);
@@ -138,6 +247,18 @@ class UserController {
       res.status(409).send('username already in use');
       return;
     }
+    if (banChanged) {
+      await cascadeUserBan(user, userId);
+    }
+    if (getRole(user) !== oldRole) {
+      await recordAudit({
+        actorId: userId,
+        action: 'user:role',
+        targetType: 'user',
+        targetId: user.id,
+        details: { from: oldRole, to: getRole(user) }
+      });
+    }
     res.status(200).send(user);
   };
 
@@ -153,7 +274,19 @@ class UserController {
       res.status(404).send('User not found');
       return;
     }
-    userRepository.delete(id);
+    try {
+      await userRepository.delete(id);
+      await recordAudit({
+        actorId: req.user && req.user.id,
+        action: 'user:delete',
+        targetType: 'user',
+        targetId: user.id,
+        details: { username: user.username }
+      });
+    } catch (error) {
+      res.status(500).send(error);
+      return;
+    }
 
     //After all send a 204 (no content, but accepted) response
     res.status(204).send();
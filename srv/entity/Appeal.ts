@@ -0,0 +1,54 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  Unique
+} from 'typeorm';
+import { User } from './User';
+import { AuditEvent } from './AuditEvent';
+import { AppealStatus } from '../../src/interfaces';
+
+/** Request of the banned user to lift the ban */
+@Entity()
+@Unique(['eventId'])
+export class Appeal {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  user?: User;
+
+  @Column({ type: 'int' })
+  userId!: number;
+
+  /** The ban, one appeal for every ban */
+  @ManyToOne(() => AuditEvent, { onDelete: 'CASCADE' })
+  event?: AuditEvent;
+
+  @Column({ type: 'int' })
+  eventId!: number;
+
+  @Column({ length: 1000 })
+  text!: string;
+
+  @Column({ type: 'varchar', default: 'pending' })
+  status!: AppealStatus;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  moderator?: User;
+
+  @Column({ type: 'int', nullable: true })
+  moderatorId?: number | null;
+
+  /** The moderator answer shown to the user */
+  @Column({ nullable: true, length: 500 })
+  response?: string;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @Column({ type: Date, nullable: true })
+  decidedAt?: Date | null;
+}
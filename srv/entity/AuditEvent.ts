@@ -0,0 +1,45 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  Index
+} from 'typeorm';
+import { User } from './User';
+import { AuditAction, AuditTargetType } from '../../src/interfaces';
+
+/** Who banned, hid, deleted or changed the role of what */
+@Entity()
+@Index(['targetType', 'targetId'])
+export class AuditEvent {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  actor?: User;
+
+  /** `null` for the automatic actions, scripts and secret edit links */
+  @Column({ type: 'int', nullable: true })
+  actorId?: number | null;
+
+  @Column({ type: 'varchar' })
+  action!: AuditAction;
+
+  @Column({ type: 'varchar' })
+  targetType!: AuditTargetType;
+
+  @Column({ type: 'varchar' })
+  targetId!: string;
+
+  /** The changed values and the context, e.g. `{ from, to }` */
+  @Column({ type: 'simple-json', nullable: true })
+  details?: Record<string, unknown> | null;
+
+  /** The event that reversed this one */
+  @Column({ type: 'int', nullable: true })
+  reversedById?: number | null;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
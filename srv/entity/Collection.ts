@@ -0,0 +1,62 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  OneToMany
+} from 'typeorm';
+import { IsNotEmpty, IsOptional, MaxLength } from 'class-validator';
+import { User } from './User';
+import { CollectionItem } from './CollectionItem';
+import {
+  MAX_COLLECTION_DESCRIPTION_LENGTH,
+  MAX_COLLECTION_TITLE_LENGTH
+} from '../../src/utils/collections';
+
+/** Named reading list of the stories */
+@Entity()
+export class Collection {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  user?: User;
+
+  @Column({ type: 'int' })
+  userId!: number;
+
+  @Column({ length: MAX_COLLECTION_TITLE_LENGTH })
+  @IsNotEmpty()
+  @MaxLength(MAX_COLLECTION_TITLE_LENGTH)
+  title!: string;
+
+  @Column({
+    type: 'varchar',
+    nullable: true,
+    length: MAX_COLLECTION_DESCRIPTION_LENGTH
+  })
+  @IsOptional()
+  @MaxLength(MAX_COLLECTION_DESCRIPTION_LENGTH)
+  description?: string | null;
+
+  /** Private collections are seen by the owner only */
+  @Column({ default: false })
+  isPublic!: boolean;
+
+  @Column({ type: 'varchar', nullable: true })
+  postcard?: string | null;
+
+  @OneToMany(
+    () => CollectionItem,
+    (item: CollectionItem) => item.collection
+  )
+  items?: CollectionItem[];
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
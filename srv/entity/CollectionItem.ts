@@ -0,0 +1,40 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  Unique
+} from 'typeorm';
+import { Collection } from './Collection';
+import { Story } from './Story';
+
+/** The story in the collection, sorted by `position` */
+@Entity()
+@Unique(['collectionId', 'storyId'])
+export class CollectionItem {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @ManyToOne(
+    () => Collection,
+    (collection: Collection) => collection.items,
+    { onDelete: 'CASCADE' }
+  )
+  collection?: Collection;
+
+  @Column({ type: 'int' })
+  collectionId!: number;
+
+  @ManyToOne(() => Story, { onDelete: 'CASCADE' })
+  story?: Story;
+
+  @Column({ type: 'varchar' })
+  storyId!: string;
+
+  @Column({ type: 'int', default: 0 })
+  position!: number;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
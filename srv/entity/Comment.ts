@@ -0,0 +1,61 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  Index
+} from 'typeorm';
+import { IsNotEmpty, MaxLength } from 'class-validator';
+import { User } from './User';
+import { Story } from './Story';
+import { MAX_COMMENT_LENGTH } from '../../src/utils/comments';
+
+@Entity()
+@Index(['storyId', 'createdAt'])
+export class Comment {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @ManyToOne(() => Story, { onDelete: 'CASCADE' })
+  story?: Story;
+
+  @Column({ type: 'varchar' })
+  storyId!: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  user?: User;
+
+  @Column({ type: 'int' })
+  userId!: number;
+
+  /** The comment this one answers */
+  @ManyToOne(() => Comment, { onDelete: 'SET NULL' })
+  parent?: Comment;
+
+  @Column({ type: 'int', nullable: true })
+  parentId?: number | null;
+
+  @Column({ length: MAX_COMMENT_LENGTH })
+  @IsNotEmpty()
+  @MaxLength(MAX_COMMENT_LENGTH)
+  text!: string;
+
+  /** Deleted by the author, the answers stay in the thread */
+  @Column({ default: false })
+  isDeleted!: boolean;
+
+  /** Removed by a moderator */
+  @Column({ default: false })
+  isRemoved!: boolean;
+
+  @Column({ default: 0, type: 'int' })
+  violationsCount!: number;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  /** When the author last changed the text */
+  @Column({ type: Date, nullable: true })
+  editedAt?: Date | null;
+}
@@ -0,0 +1,47 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne
+} from 'typeorm';
+import { User } from './User';
+import { RepliesState } from '../../src/interfaces';
+
+/** Unpublished story synced between the devices of the user */
+@Entity()
+export class Draft {
+  /** Generated by the client, the same as in the local storage */
+  @PrimaryColumn()
+  id!: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  user?: User;
+
+  @Column({ type: 'int' })
+  userId!: number;
+
+  @Column({ default: '', length: 100 })
+  name!: string;
+
+  @Column()
+  content!: string;
+
+  /** Candidates shown in the editor when the draft was saved */
+  @Column({ type: 'simple-json', nullable: true })
+  replies?: RepliesState | null;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  /** Time of the last change on the client, the latest change wins */
+  @Column()
+  updatedAt!: Date;
+
+  /**
+   * The tombstone of the deleted draft, so the other devices delete it too
+   * instead of bringing it back. `updatedAt` is the same time.
+   */
+  @Column({ type: Date, nullable: true })
+  deletedAt?: Date | null;
+}
@@ -0,0 +1,32 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  Unique
+} from 'typeorm';
+import { User } from './User';
+
+/** The follower sees the public stories of the author in the feed */
+@Entity()
+@Unique(['followerId', 'authorId'])
+export class Follow {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  follower?: User;
+
+  @Column({ type: 'int' })
+  followerId!: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  author?: User;
+
+  @Column({ type: 'int' })
+  authorId!: number;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
@@ -0,0 +1,61 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  Index
+} from 'typeorm';
+import { User } from './User';
+import { MailKind, MailStatus } from '../../src/interfaces';
+
+/** The message in the outgoing queue, see `processMailQueue` */
+@Entity()
+@Index(['status', 'nextAttemptAt'])
+export class MailJob {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  user?: User;
+
+  @Column({ type: 'int', nullable: true })
+  userId?: number | null;
+
+  @Column({ type: 'varchar' })
+  kind!: MailKind;
+
+  @Column({ type: 'varchar' })
+  to!: string;
+
+  @Column({ type: 'varchar' })
+  subject!: string;
+
+  @Column({ type: 'text' })
+  text!: string;
+
+  @Column({ type: 'text' })
+  html!: string;
+
+  /** The unsubscribe headers */
+  @Column({ type: 'simple-json', nullable: true })
+  headers?: Record<string, string> | null;
+
+  @Column({ type: 'varchar', default: 'pending' })
+  status!: MailStatus;
+
+  @Column({ type: 'int', default: 0 })
+  attempts!: number;
+
+  @Column({ type: Date })
+  nextAttemptAt!: Date;
+
+  @Column({ type: 'varchar', nullable: true })
+  lastError?: string | null;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @Column({ type: Date, nullable: true })
+  sentAt?: Date | null;
+}
@@ -0,0 +1,26 @@
+import { Entity, PrimaryColumn, Column, OneToOne, JoinColumn } from 'typeorm';
+import { User } from './User';
+
+/** Which mail the user gets, the missing record enables all of it */
+@Entity()
+export class MailPreferences {
+  @PrimaryColumn({ type: 'int' })
+  userId!: number;
+
+  @OneToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user?: User;
+
+  @Column({ default: true })
+  digest!: boolean;
+
+  @Column({ default: true })
+  likes!: boolean;
+
+  @Column({ default: true })
+  moderation!: boolean;
+
+  /** The secret of the unsubscribe links, they work without login */
+  @Column({ type: 'varchar', unique: true })
+  unsubscribeToken!: string;
+}
@@ -0,0 +1,47 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne
+} from 'typeorm';
+import { User } from './User';
+import { Story } from './Story';
+import { ModerationAction } from '../../src/interfaces';
+
+/** What a moderator did with the reported story */
+@Entity()
+export class ModerationDecision {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @ManyToOne(() => Story, { onDelete: 'CASCADE' })
+  story?: Story;
+
+  @Column({ type: 'varchar' })
+  storyId!: string;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  moderator?: User;
+
+  /** `null` for the automatic decisions */
+  @Column({ type: 'int', nullable: true })
+  moderatorId?: number | null;
+
+  @Column({ type: 'varchar' })
+  action!: ModerationAction;
+
+  @Column({ nullable: true, length: 500 })
+  comment?: string;
+
+  /** Number of the open reports the decision was made on */
+  @Column({ default: 0, type: 'int' })
+  violationsCount!: number;
+
+  /** Sum of the reporters weights that triggered the automatic decision */
+  @Column({ type: 'float', nullable: true })
+  score?: number | null;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
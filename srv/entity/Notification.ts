@@ -0,0 +1,51 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  Index
+} from 'typeorm';
+import { User } from './User';
+import { NotificationType } from '../../src/interfaces';
+
+/** The event for the user, see `notify` */
+@Entity()
+@Index(['userId', 'isRead'])
+export class Notification {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  /** Who is notified */
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  user?: User;
+
+  @Column({ type: 'int' })
+  userId!: number;
+
+  @Column({ type: 'varchar' })
+  type!: NotificationType;
+
+  /** Who liked, commented or followed, `null` for the automatic actions */
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  actor?: User;
+
+  @Column({ type: 'int', nullable: true })
+  actorId?: number | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  storyId?: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  commentId?: number | null;
+
+  /** The context, e.g. `{ action }` of the moderation */
+  @Column({ type: 'simple-json', nullable: true })
+  details?: Record<string, unknown> | null;
+
+  @Column({ default: false })
+  isRead!: boolean;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
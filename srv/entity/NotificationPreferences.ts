@@ -0,0 +1,28 @@
+import { Entity, PrimaryColumn, Column, OneToOne, JoinColumn } from 'typeorm';
+import { User } from './User';
+
+/** Which events notify the user, the missing record enables all of them */
+@Entity()
+export class NotificationPreferences {
+  @PrimaryColumn({ type: 'int' })
+  userId!: number;
+
+  @OneToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user?: User;
+
+  @Column({ default: true })
+  like!: boolean;
+
+  @Column({ default: true })
+  moderation!: boolean;
+
+  @Column({ default: true })
+  fork!: boolean;
+
+  @Column({ default: true })
+  follow!: boolean;
+
+  @Column({ default: true })
+  comment!: boolean;
+}
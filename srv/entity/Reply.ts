@@ -0,0 +1,37 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  Index
+} from 'typeorm';
+import { User } from './User';
+
+/**
+ * The text issued by the generation backend.
+ * Kept to verify that AI fragments of published stories were really generated.
+ */
+@Entity()
+@Index(['userId', 'createdAt'])
+@Index(['sessionId', 'createdAt'])
+export class Reply {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  user?: User;
+
+  @Column({ type: 'int', nullable: true })
+  userId?: number | null;
+
+  /** Random id of the browser session for anonymous users */
+  @Column({ type: 'varchar', nullable: true, length: 64 })
+  sessionId?: string | null;
+
+  @Column()
+  text!: string;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
@@ -6,9 +6,12 @@ import {
   CreateDateColumn,
   UpdateDateColumn,
   BeforeInsert,
+  BeforeUpdate,
   Generated,
   ManyToOne,
-  OneToMany
+  OneToMany,
+  ManyToMany,
+  JoinTable
 } from 'typeorm';
 import { IsNotEmpty } from 'class-validator';
 import shortid from 'shortid';
@@ -16,6 +19,13 @@ import shortid from 'shortid';
 import { User } from './User';
 import { Like } from './Like';
 import { Violation } from './Violation';
+import { Tag } from './Tag';
+import { StoryRevision } from './StoryRevision';
+import {
+  GenerationParams,
+  ModerationStatus,
+  Visibility
+} from '../../src/interfaces';
 
 @Entity()
 @Unique(['id', 'editId'])
@@ -42,12 +52,46 @@ export class Story {
   )
   violations!: Violation[];
 
+  @OneToMany(
+    () => StoryRevision,
+    (revision: StoryRevision) => revision.story
+  )
+  revisions!: StoryRevision[];
+
+  /** The story this one continues */
+  @ManyToOne(
+    () => Story,
+    (story: Story) => story.forks,
+    { onDelete: 'SET NULL' }
+  )
+  parent?: Story;
+
+  @Column({ type: 'varchar', nullable: true })
+  parentId?: string | null;
+
+  @OneToMany(
+    () => Story,
+    (story: Story) => story.parent
+  )
+  forks!: Story[];
+
+  @ManyToMany(
+    () => Tag,
+    (tag: Tag) => tag.stories
+  )
+  @JoinTable()
+  tags!: Tag[];
+
   @Column({ type: 'int', nullable: true })
   userId?: number | null;
 
   @Column({ default: 0, type: 'int' })
   likesCount!: number;
 
+  /** The last likes milestone mailed to the author, see `srv/mailer` */
+  @Column({ type: 'int', nullable: true, select: false })
+  likesMilestone?: number | null;
+
   @Column()
   @Generated('uuid')
   editId!: string;
@@ -65,12 +109,21 @@ export class Story {
   @Column({ default: 0, type: 'int' })
   viewsCount!: number;
 
+  /** Derived from `visibility`, kept for the gallery queries */
   @Column({ default: false, type: 'boolean' })
   isPublic!: boolean;
 
+  /** `null` for the stories created before, `isPublic` tells the visibility */
+  @Column({ type: 'varchar', nullable: true })
+  visibility?: Visibility | null;
+
   @Column({ default: false, type: 'boolean' })
   isDeleted!: boolean;
 
+  /** When the story was moved to the trash, see `srv/trash` */
+  @Column({ type: Date, nullable: true })
+  deletedAt?: Date | null;
+
   @CreateDateColumn()
   createdAt!: Date;
 
@@ -80,11 +133,42 @@ export class Story {
   @Column({ default: 0, type: 'int' })
   violationsCount!: number;
 
+  /** Comments not deleted by the authors or moderators */
+  @Column({ default: 0, type: 'int' })
+  commentsCount!: number;
+
   @Column({ default: false })
   isBanned!: boolean;
 
+  /** Removed from the gallery by a moderator */
+  @Column({ default: false })
+  isHidden!: boolean;
+
+  @Column({ type: 'varchar', nullable: true })
+  moderationStatus?: ModerationStatus | null;
+
+  /** All AI fragments were issued by the generation backend */
+  @Column({ default: false })
+  verified!: boolean;
+
+  /** How the AI fragments were generated, as reported by the author */
+  @Column({ type: 'simple-json', nullable: true })
+  generationSettings?: GenerationParams | null;
+
+  /** Simhash of the own text for the near duplicates, see `srv/antiAbuse` */
+  @Column({ type: 'varchar', length: 16, nullable: true, select: false })
+  simhash?: string | null;
+
   @BeforeInsert()
   protected beforeInsert() {
     this.id = shortid.generate();
+    this.syncVisibility();
+  }
+
+  @BeforeUpdate()
+  protected syncVisibility() {
+    if (this.visibility) {
+      this.isPublic = this.visibility === 'public';
+    }
   }
 }
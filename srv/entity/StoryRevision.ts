@@ -0,0 +1,38 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne
+} from 'typeorm';
+import { User } from './User';
+import { Story } from './Story';
+
+@Entity()
+export class StoryRevision {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @ManyToOne(
+    () => Story,
+    (story: Story) => story.revisions,
+    { onDelete: 'CASCADE' }
+  )
+  story?: Story;
+
+  @Column()
+  storyId!: string;
+
+  /** Author of the change */
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  user?: User;
+
+  @Column({ type: 'int', nullable: true })
+  userId?: number | null;
+
+  @Column()
+  content!: string;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
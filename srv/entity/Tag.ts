@@ -0,0 +1,28 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToMany
+} from 'typeorm';
+import { Length } from 'class-validator';
+import { Story } from './Story';
+
+@Entity()
+export class Tag {
+  @PrimaryGeneratedColumn()
+  id!: number;
+
+  @Column({ unique: true, length: 20 })
+  @Length(1, 20)
+  name!: string;
+
+  @ManyToMany(
+    () => Story,
+    (story: Story) => story.tags
+  )
+  stories!: Story[];
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
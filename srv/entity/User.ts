@@ -5,15 +5,13 @@ import {
   CreateDateColumn,
   UpdateDateColumn,
   OneToMany,
-  Index,
-  AfterUpdate,
-  BeforeUpdate,
-  getRepository
+  Index
 } from 'typeorm';
-import { Length, IsEmail } from 'class-validator';
+import { Length, IsEmail, IsOptional, MaxLength } from 'class-validator';
 import * as bcrypt from 'bcryptjs';
 import { Story } from './Story';
 import { Like } from './Like';
+import { GenerationSettings, Role } from '../../src/interfaces';
 
 @Entity()
 @Index(['email'], { unique: true, where: 'email IS NOT NULL' })
@@ -39,6 +37,17 @@ export class User {
   @Column()
   username!: string;
 
+  /** Shown on the profile instead of `username` */
+  @Column({ type: 'varchar', nullable: true, length: 50 })
+  @IsOptional()
+  @MaxLength(50)
+  displayName?: string | null;
+
+  @Column({ type: 'varchar', nullable: true, length: 500 })
+  @IsOptional()
+  @MaxLength(500)
+  bio?: string | null;
+
   @Column()
   @Length(4, 100)
   password!: string;
@@ -47,9 +56,14 @@ export class User {
   @IsEmail()
   email?: string;
 
+  /** Kept for the users created before roles, means `admin` */
   @Column({ default: false })
   isSuperuser!: boolean;
 
+  /** `null` is `author`, or `admin` for superusers */
+  @Column({ type: 'varchar', nullable: true })
+  role?: Role | null;
+
   @CreateDateColumn()
   createdAt!: Date;
 
@@ -62,9 +76,17 @@ export class User {
   @Column({ nullable: true })
   photoUrl?: string;
 
+  /** Save it with `cascadeUserBan` to ban the stories too */
   @Column({ default: false })
   isBanned!: boolean;
 
+  @Column({ type: 'simple-json', nullable: true })
+  generationSettings?: GenerationSettings | null;
+
+  /** When the user last opened the feed of the followed authors */
+  @Column({ type: Date, nullable: true })
+  feedSeenAt?: Date | null;
+
   hashPassword() {
     this.password = bcrypt.hashSync(this.password, 8);
   }
@@ -72,13 +94,4 @@ export class User {
   checkIfUnencryptedPasswordIsValid(unencryptedPassword: string) {
     return bcrypt.compareSync(unencryptedPassword, this.password);
   }
-
-  @BeforeUpdate()
-  beforeUpdate() {
-    getRepository(Story)
-      .createQueryBuilder('story')
-      .where('story.userId = :userId', { userId: this.id })
-      .update({ isBanned: this.isBanned })
-      .execute();
-  }
 }
@@ -1,14 +1,19 @@
 import { User } from './User';
 import { Story } from './Story';
+import { ModerationDecision } from './ModerationDecision';
+import { Comment } from './Comment';
 import {
   AfterInsert,
   BeforeRemove,
   Column,
+  CreateDateColumn,
   Entity,
   getRepository,
+  JoinColumn,
   ManyToOne,
   PrimaryGeneratedColumn
 } from 'typeorm';
+import { ViolationReason, ViolationStatus } from '../../src/interfaces';
 
 @Entity()
 export class Violation {
@@ -28,16 +33,42 @@ export class Violation {
   story?: Story;
   @Column({ type: 'int', nullable: true })
   storyId?: string | null;
-  @Column({ nullable: true })
+  /** Report on a comment of the story, does not count for the story */
+  @ManyToOne(() => Comment, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'commentId' })
+  reportedComment?: Comment;
+  @Column({ type: 'int', nullable: true })
+  commentId?: number | null;
+  /** `null` for the reports sent before the reasons were asked */
+  @Column({ type: 'varchar', nullable: true })
+  reason?: ViolationReason | null;
+  @Column({ nullable: true, length: 500 })
   comment?: string;
+  @Column({ type: 'varchar', default: 'open' })
+  status!: ViolationStatus;
+  /** The decision that closed the report */
+  @ManyToOne(() => ModerationDecision, { onDelete: 'SET NULL' })
+  decision?: ModerationDecision;
+  @Column({ type: 'int', nullable: true })
+  decisionId?: number | null;
+  @CreateDateColumn()
+  createdAt!: Date;
 
   @AfterInsert()
   protected async afterInsert() {
+    if (this.commentId) {
+      await getRepository(Comment).increment(
+        { id: this.commentId },
+        'violationsCount',
+        1
+      );
+      return;
+    }
     const storyRepository = getRepository(Story);
     if (this.storyId) {
       const story = await storyRepository.findOne(this.storyId);
       if (story) {
-        story.likesCount = story.violationsCount + 1;
+        story.violationsCount = story.violationsCount + 1;
         await storyRepository.save(story);
       }
     }
@@ -45,11 +76,19 @@ export class Violation {
 
   @BeforeRemove()
   protected async beforeRemove() {
+    if (this.commentId) {
+      await getRepository(Comment).decrement(
+        { id: this.commentId },
+        'violationsCount',
+        1
+      );
+      return;
+    }
     const storyRepository = getRepository(Story);
     if (this.storyId) {
       const story = await storyRepository.findOne(this.storyId);
-      if (story && story.likesCount) {
-        story.likesCount = story.violationsCount - 1;
+      if (story && story.violationsCount) {
+        story.violationsCount = story.violationsCount - 1;
         await storyRepository.save(story);
       }
     }
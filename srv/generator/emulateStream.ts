@@ -0,0 +1,26 @@
+import { GenerateOptions, TokenCallback } from './interfaces';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Emit the first of already generated replies word by word.
+ * For backends that can only return the whole replies.
+ */
+export async function emulateStream(
+  replies: string[],
+  opt: GenerateOptions,
+  onToken: TokenCallback,
+  delay = 0
+) {
+  const tokens = (replies[0] || '').match(/\s*\S+\s*/g) || [];
+  for (const token of tokens) {
+    if (opt.isAborted && opt.isAborted()) {
+      break;
+    }
+    if (delay) {
+      await wait(delay);
+    }
+    onToken(0, token);
+  }
+  return replies;
+}
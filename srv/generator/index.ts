@@ -0,0 +1,19 @@
+import config from '../config';
+import { Generator } from './interfaces';
+import { RemoteGenerator } from './remote';
+import { StubGenerator } from './stub';
+
+export * from './interfaces';
+export { emulateStream } from './emulateStream';
+
+let generator: Generator | undefined;
+
+export function getGenerator(): Generator {
+  if (!generator) {
+    generator =
+      config.get('generator.backend') === 'stub'
+        ? new StubGenerator()
+        : new RemoteGenerator();
+  }
+  return generator;
+}
@@ -0,0 +1,16 @@
+import { GenerationParams } from '../../src/interfaces';
+
+export interface GenerateOptions extends GenerationParams {
+  prompt: string;
+  /** Stop generation when the client has gone */
+  isAborted?: () => boolean;
+}
+
+/** Called for every generated piece of the reply number `index` */
+export type TokenCallback = (index: number, token: string) => void;
+
+export interface Generator {
+  generate(opt: GenerateOptions): Promise<string[]>;
+  /** Generate replies token by token, resolve with the complete replies */
+  stream?(opt: GenerateOptions, onToken: TokenCallback): Promise<string[]>;
+}
@@ -0,0 +1,82 @@
+import config from '../config';
+import { postJson, postJsonLines } from '../utils/postJson';
+import { Generator, GenerateOptions, TokenCallback } from './interfaces';
+import { emulateStream } from './emulateStream';
+
+interface RemoteResponse {
+  replies?: string[];
+  detail?: string;
+}
+
+interface RemoteStreamLine extends RemoteResponse {
+  index?: number;
+  token?: string;
+}
+
+/** The model API takes snake case parameters */
+const toRemoteBody = (opt: GenerateOptions) => ({
+  prompt: opt.prompt,
+  length: opt.length,
+  temperature: opt.temperature,
+  top_k: opt.topK,
+  top_p: opt.topP,
+  num_samples: opt.numSamples
+});
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class RemoteGenerator implements Generator {
+  async generate(opt: GenerateOptions): Promise<string[]> {
+    const endpoint = config.get('generator.endpoint');
+    const timeout = config.get('generator.timeout');
+    const retries = config.get('generator.retries');
+    let lastError: Error | undefined;
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      if (attempt) {
+        await wait(500 * attempt);
+      }
+      try {
+        const data = await postJson<RemoteResponse>(
+          `${endpoint}/generate/`,
+          toRemoteBody(opt),
+          { timeout }
+        );
+        if (data.replies) {
+          return data.replies;
+        }
+        lastError = new Error(data.detail || 'No replies');
+      } catch (er) {
+        lastError = er;
+      }
+    }
+    throw lastError;
+  }
+
+  async stream(opt: GenerateOptions, onToken: TokenCallback) {
+    if (!config.get('generator.stream')) {
+      return emulateStream(await this.generate(opt), opt, onToken);
+    }
+    const endpoint = config.get('generator.endpoint');
+    const timeout = config.get('generator.timeout');
+    const streamed: string[] = [];
+    let replies: string[] | undefined;
+    await postJsonLines<RemoteStreamLine>(
+      `${endpoint}/generate_stream/`,
+      toRemoteBody(opt),
+      line => {
+        if (line.detail) {
+          throw new Error(line.detail);
+        }
+        if (line.replies) {
+          replies = line.replies;
+        } else if (typeof line.token === 'string') {
+          const index = line.index || 0;
+          streamed[index] = (streamed[index] || '') + line.token;
+          onToken(index, line.token);
+        }
+      },
+      { timeout, isAborted: opt.isAborted }
+    );
+    return replies || streamed.filter(x => x !== undefined);
+  }
+}
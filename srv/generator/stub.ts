@@ -0,0 +1,48 @@
+import { Generator, GenerateOptions, TokenCallback } from './interfaces';
+import { emulateStream } from './emulateStream';
+
+const WORDS = [
+  'и',
+  'вдруг',
+  'тишина',
+  'ночь',
+  'он',
+  'она',
+  'посмотрел',
+  'сказала',
+  'в',
+  'окно',
+  'снова',
+  'никто',
+  'не',
+  'знал',
+  'почему'
+];
+
+/**
+ * Fake generator for development and tests.
+ * Returns the same replies for the same prompt without the model.
+ */
+export class StubGenerator implements Generator {
+  async generate(opt: GenerateOptions): Promise<string[]> {
+    let seed = 0;
+    for (let i = 0; i < opt.prompt.length; i++) {
+      seed = (seed * 31 + opt.prompt.charCodeAt(i)) >>> 0;
+    }
+    const replies: string[] = [];
+    for (let r = 0; r < opt.numSamples; r++) {
+      const words: string[] = [];
+      for (let w = 0; w < opt.length; w++) {
+        seed = (seed * 1103515245 + 12345) >>> 0;
+        words.push(WORDS[seed % WORDS.length]);
+      }
+      replies.push(' ' + words.join(' ') + '.');
+    }
+    return replies;
+  }
+
+  async stream(opt: GenerateOptions, onToken: TokenCallback) {
+    const replies = await this.generate(opt);
+    return emulateStream(replies, opt, onToken, 50);
+  }
+}
@@ -3,10 +3,16 @@ import { Application } from 'express';
 import { api } from './api';
 import { appConfig } from './appConfig';
 import config from './config';
+import { initSearch } from './search';
+import { schedulePurge } from './trash/purge';
+import { scheduleMail } from './mailer/schedule';
 
 export default (app: Application) => {
   createConnection()
     .then(async connection => {
+      await initSearch(connection.manager);
+      schedulePurge(connection.manager);
+      scheduleMail(connection.manager);
       appConfig(app);
       api(app);
 
@@ -0,0 +1,10 @@
+import { MailMessage, MailTransport } from './interfaces';
+
+/** Print the messages instead of sending them */
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage) {
+    console.log(
+      `Mail to ${message.to}: ${message.subject}\n${message.text}\n`
+    );
+  }
+}
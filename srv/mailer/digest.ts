@@ -0,0 +1,58 @@
+import { EntityManager, IsNull, MoreThan, Not } from 'typeorm';
+import config from '../config';
+import { MailJob } from '../entity/MailJob';
+import { Story } from '../entity/Story';
+import { User } from '../entity/User';
+import { enqueueMail } from './queue';
+import { digestMail } from './templates';
+
+const WEEK = 7 * 24 * 60 * 60 * 1000;
+
+const getPeriod = () => config.get('mail.digest.interval') || WEEK;
+
+/** The last digest was queued `mail.digest.interval` ago or never */
+export async function isDigestDue(manager: EntityManager) {
+  const last = await manager.getRepository(MailJob).findOne({
+    where: { kind: 'digest' },
+    order: { createdAt: 'DESC' },
+    select: ['id', 'createdAt']
+  });
+  return (
+    !last || new Date(last.createdAt).getTime() + getPeriod() <= Date.now()
+  );
+}
+
+/**
+ * Queue the most liked public stories of the period for every user
+ * with an email. Returns the number of the queued messages.
+ */
+export async function sendDigest(manager: EntityManager) {
+  const since = new Date(Date.now() - getPeriod()).toISOString();
+  const stories = await manager.getRepository(Story).find({
+    where: {
+      isPublic: true,
+      isDeleted: false,
+      isBanned: false,
+      isHidden: false,
+      createdAt: MoreThan(since)
+    },
+    order: { likesCount: 'DESC' },
+    take: config.get('mail.digest.size'),
+    select: ['id', 'content', 'likesCount']
+  });
+  if (!stories.length) {
+    return 0;
+  }
+  const users = await manager.getRepository(User).find({
+    where: { isBanned: false, email: Not(IsNull()) },
+    select: ['id', 'email']
+  });
+  const content = digestMail(stories);
+  let count = 0;
+  for (const user of users) {
+    if (await enqueueMail(user, 'digest', content)) {
+      count++;
+    }
+  }
+  return count;
+}
@@ -0,0 +1,54 @@
+import { getRepository } from 'typeorm';
+import config from '../config';
+import { Notification } from '../entity/Notification';
+import { Story } from '../entity/Story';
+import { User } from '../entity/User';
+import { getNotificationText } from '../../src/utils/notifications';
+import { enqueueMail } from './queue';
+import { likesMail, moderationMail } from './templates';
+
+const findRecipient = (id: number) =>
+  getRepository(User).findOne(id, { select: ['id', 'email', 'isBanned'] });
+
+/**
+ * Tell the author the story has got `mail.likeMilestones` likes.
+ * Every milestone is mailed once, the likes removed and added again
+ * do not repeat it. The errors are logged only, like in `notify`.
+ */
+export async function mailLikeMilestone(story: Story, likesCount: number) {
+  const milestones = config.get('mail.likeMilestones').map(Number);
+  if (!story.userId || !milestones.includes(likesCount)) {
+    return;
+  }
+  try {
+    const repository = getRepository(Story);
+    const sent = await repository.findOne(story.id, {
+      select: ['id', 'likesMilestone']
+    });
+    if (!sent || (sent.likesMilestone || 0) >= likesCount) {
+      return;
+    }
+    await repository.update(story.id, { likesMilestone: likesCount });
+    const user = await findRecipient(story.userId);
+    if (user && !user.isBanned) {
+      await enqueueMail(user, 'likes', likesMail(story, likesCount));
+    }
+  } catch (error) {
+    console.log(error);
+  }
+}
+
+/** Send the moderation notifications by mail too */
+export async function mailNotification(notification: Notification) {
+  if (notification.type !== 'moderation') {
+    return;
+  }
+  const user = await findRecipient(notification.userId);
+  if (user) {
+    await enqueueMail(
+      user,
+      'moderation',
+      moderationMail(getNotificationText(notification), notification.storyId)
+    );
+  }
+}
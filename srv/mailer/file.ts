@@ -0,0 +1,17 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import config from '../config';
+import { MailMessage, MailTransport } from './interfaces';
+
+/** Write every message to a JSON file for development and tests */
+export class FileTransport implements MailTransport {
+  async send(message: MailMessage) {
+    const dir = config.get('mail.file.dir');
+    await fs.mkdir(dir, { recursive: true });
+    const name = `${Date.now()}-${message.to.replace(/[^\w.@-]/g, '_')}.json`;
+    await fs.writeFile(
+      path.join(dir, name),
+      JSON.stringify({ from: config.get('mail.from'), ...message }, null, 2)
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import config from '../config';
+import { MailTransport } from './interfaces';
+import { SmtpTransport } from './smtp';
+import { FileTransport } from './file';
+import { ConsoleTransport } from './console';
+
+export * from './interfaces';
+
+let transport: MailTransport | undefined;
+
+export function getTransport(): MailTransport {
+  if (!transport) {
+    const name = config.get('mail.transport');
+    transport =
+      name === 'smtp'
+        ? new SmtpTransport()
+        : name === 'file'
+        ? new FileTransport()
+        : new ConsoleTransport();
+  }
+  return transport;
+}
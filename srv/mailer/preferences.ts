@@ -0,0 +1,44 @@
+import crypto from 'crypto';
+import { getRepository } from 'typeorm';
+import { MailPreferences } from '../entity/MailPreferences';
+import { MailKind, MailSettings } from '../../src/interfaces';
+import { MAIL_KINDS } from '../../src/utils/mail';
+
+/** The preferences of the user, created with the unsubscribe token */
+export async function getMailPreferences(userId: number) {
+  const repository = getRepository(MailPreferences);
+  const preferences = await repository.findOne(userId);
+  if (preferences) {
+    return preferences;
+  }
+  return repository.save(
+    repository.create({
+      userId,
+      unsubscribeToken: crypto.randomBytes(24).toString('hex')
+    })
+  );
+}
+
+export function getMailSettings(preferences: MailPreferences) {
+  const settings = {} as MailSettings;
+  MAIL_KINDS.forEach(x => {
+    settings[x] = preferences[x];
+  });
+  return settings;
+}
+
+/** Turn off the kind of the mail, all of it without `kind` */
+export async function unsubscribe(token: string, kind?: MailKind) {
+  const repository = getRepository(MailPreferences);
+  const preferences = await repository.findOne({ unsubscribeToken: token });
+  if (!preferences) {
+    return false;
+  }
+  MAIL_KINDS.forEach(x => {
+    if (!kind || x === kind) {
+      preferences[x] = false;
+    }
+  });
+  await repository.save(preferences);
+  return true;
+}
@@ -0,0 +1,102 @@
+import { EntityManager, getRepository } from 'typeorm';
+import config from '../config';
+import { MailJob } from '../entity/MailJob';
+import { User } from '../entity/User';
+import { MailKind } from '../../src/interfaces';
+import { getTransport } from '.';
+import { getMailPreferences } from './preferences';
+import { MailContent, withFooter } from './templates';
+
+let isProcessing = false;
+
+/**
+ * Queue the message for the user unless there is no verified email
+ * or the user has unsubscribed from the kind. Returns the queued job.
+ */
+export async function enqueueMail(
+  user: Pick<User, 'id' | 'email'>,
+  kind: MailKind,
+  content: MailContent
+) {
+  if (!user.email) {
+    return;
+  }
+  const preferences = await getMailPreferences(user.id);
+  if (!preferences[kind]) {
+    return;
+  }
+  const unsubscribeUrl =
+    config.get('site') +
+    '/api/mail/unsubscribe?token=' +
+    preferences.unsubscribeToken +
+    '&kind=' +
+    kind;
+  const repository = getRepository(MailJob);
+  return repository.save(
+    repository.create({
+      ...withFooter(content, unsubscribeUrl),
+      userId: user.id,
+      kind,
+      to: user.email,
+      headers: {
+        'List-Unsubscribe': `<${unsubscribeUrl}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+      },
+      nextAttemptAt: new Date()
+    })
+  );
+}
+
+/**
+ * Send the due messages, `mail.batchSize` at most. The failed ones are
+ * tried again after `mail.retryDelay` doubled on every attempt and given
+ * up after `mail.maxAttempts`. Returns the number of the sent messages.
+ */
+export async function processMailQueue(manager: EntityManager) {
+  if (isProcessing) {
+    return 0;
+  }
+  isProcessing = true;
+  try {
+    const repository = manager.getRepository(MailJob);
+    const now = Date.now();
+    const jobs = (
+      await repository.find({
+        where: { status: 'pending' },
+        order: { nextAttemptAt: 'ASC' },
+        take: config.get('mail.batchSize')
+      })
+    ).filter(x => new Date(x.nextAttemptAt).getTime() <= now);
+    const transport = getTransport();
+    let sent = 0;
+    for (const job of jobs) {
+      job.attempts += 1;
+      try {
+        await transport.send({
+          to: job.to,
+          subject: job.subject,
+          text: job.text,
+          html: job.html,
+          headers: job.headers || undefined
+        });
+        job.status = 'sent';
+        job.sentAt = new Date();
+        job.lastError = null;
+        sent++;
+      } catch (error) {
+        job.lastError = String(error).slice(0, 500);
+        if (job.attempts >= config.get('mail.maxAttempts')) {
+          job.status = 'failed';
+        } else {
+          const delay =
+            config.get('mail.retryDelay') * Math.pow(2, job.attempts - 1);
+          job.nextAttemptAt = new Date(Date.now() + delay);
+        }
+      }
+      await repository.save(job);
+    }
+    return sent;
+  } finally {
+    isProcessing = false;
+  }
+}
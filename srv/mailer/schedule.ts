@@ -0,0 +1,34 @@
+import { EntityManager } from 'typeorm';
+import config from '../config';
+import { isDigestDue, sendDigest } from './digest';
+import { processMailQueue } from './queue';
+
+/** How often to check whether the digest is due */
+const DIGEST_CHECK_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * Send the queue every `mail.queueInterval` milliseconds and queue
+ * the digest every `mail.digest.interval`, each can be left to cron.
+ */
+export function scheduleMail(manager: EntityManager) {
+  const interval = config.get('mail.queueInterval');
+  if (interval) {
+    const run = () =>
+      processMailQueue(manager).catch(error => console.log(error));
+    run();
+    setInterval(run, interval);
+  }
+  if (config.get('mail.digest.interval')) {
+    const check = async () => {
+      try {
+        if (await isDigestDue(manager)) {
+          await sendDigest(manager);
+        }
+      } catch (error) {
+        console.log(error);
+      }
+    };
+    check();
+    setInterval(check, DIGEST_CHECK_INTERVAL);
+  }
+}
@@ -0,0 +1,26 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import config from '../config';
+import { MailMessage, MailTransport } from './interfaces';
+
+export class SmtpTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor() {
+    const user = config.get('mail.smtp.user');
+    this.transporter = nodemailer.createTransport({
+      host: config.get('mail.smtp.host'),
+      port: config.get('mail.smtp.port'),
+      secure: config.get('mail.smtp.secure'),
+      auth: user
+        ? { user, pass: config.get('mail.smtp.password') }
+        : undefined
+    });
+  }
+
+  async send(message: MailMessage) {
+    await this.transporter.sendMail({
+      from: config.get('mail.from'),
+      ...message
+    });
+  }
+}
@@ -0,0 +1,85 @@
+import config from '../config';
+import { Story } from '../entity/Story';
+import { Scheme } from '../../src/interfaces';
+import { escapeHtml } from '../../src/utils/escapeHtml';
+import { schemeToText } from '../search/text';
+
+/** The message without the recipient and the unsubscribe footer */
+export interface MailContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const preview = (story: Story, length = 200) => {
+  const text = schemeToText(JSON.parse(story.content) as Scheme).trim();
+  return text.length > length ? text.slice(0, length) + '…' : text;
+};
+
+const storyUrl = (id: string) => config.get('site') + '/' + id;
+
+const paragraph = (text: string) =>
+  `<p>${escapeHtml(text).replace(/\n/g, '<br>')}</p>`;
+
+/** Add the unsubscribe link to every message */
+export function withFooter(
+  content: MailContent,
+  unsubscribeUrl: string
+): MailContent {
+  const note = 'Чтобы не получать такие письма, перейдите по ссылке:';
+  return {
+    subject: content.subject,
+    text: `${content.text}\n\n--\n${note}\n${unsubscribeUrl}\n`,
+    html:
+      `<div style="font-family: sans-serif; max-width: 600px;">` +
+      `${content.html}<hr><p style="font-size: 12px; color: #7a7a7a;">` +
+      `${note} <a href="${unsubscribeUrl}">отписаться</a></p></div>`
+  };
+}
+
+/** The top stories of the week, the most liked first */
+export function digestMail(stories: Story[]): MailContent {
+  const subject = 'Лучшие истории недели — Порфирьевич';
+  const text = stories
+    .map(x => `${preview(x)}\n${storyUrl(x.id)}`)
+    .join('\n\n');
+  const html = stories
+    .map(
+      x =>
+        `${paragraph(preview(x))}<p><a href="${storyUrl(x.id)}">Читать</a>` +
+        ` · ${x.likesCount} ♥</p>`
+    )
+    .join('');
+  return {
+    subject,
+    text: `Истории, которые понравились читателям больше всего:\n\n${text}`,
+    html: `<h2>${escapeHtml(subject)}</h2>${html}`
+  };
+}
+
+export function likesMail(story: Story, count: number): MailContent {
+  const subject = `Вашей истории поставили ${count} лайков`;
+  const url = storyUrl(story.id);
+  return {
+    subject,
+    text: `${subject}!\n\n${preview(story)}\n${url}`,
+    html:
+      `<h2>${escapeHtml(subject)}!</h2>${paragraph(preview(story))}` +
+      `<p><a href="${url}">Открыть историю</a></p>`
+  };
+}
+
+/** `text` is the notification text, see `getNotificationText` */
+export function moderationMail(
+  text: string,
+  storyId?: string | null
+): MailContent {
+  const subject = 'Решение модератора — Порфирьевич';
+  const url = storyId ? storyUrl(storyId) : '';
+  const link = url ? `<p><a href="${url}">Открыть историю</a></p>` : '';
+  return {
+    subject,
+    text: url ? `${text}\n${url}` : text,
+    html: paragraph(text) + link
+  };
+}
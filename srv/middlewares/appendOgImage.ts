@@ -4,7 +4,33 @@ import { Request, Response, NextFunction } from 'express';
 import { getRepository } from 'typeorm';
 
 import { Story } from '../entity/Story';
+import { Collection } from '../entity/Collection';
 import { Scheme } from '../../src/interfaces';
+import { escapeHtml } from '../../src/utils/escapeHtml';
+
+const htmlPath = path.resolve(__dirname, '../../dist/index.html');
+
+/** Send the app page with the OpenGraph tags for the link previews */
+function sendWithMeta(
+  req: Request,
+  res: Response,
+  image: string | null,
+  description: string
+) {
+  let html = fs.readFileSync(htmlPath, 'utf8');
+  const addMeta = [
+    `<meta property="og:description" content="${description}" />`
+  ];
+  if (image) {
+    const ogImage = req.protocol + '://' + req.hostname + '/' + image;
+    addMeta.unshift(`<meta property="og:image" content="${ogImage}" />`);
+  }
+  html = html.replace(
+    '<meta charset=utf-8>',
+    `<meta charset=utf-8>${addMeta.join('')}`
+  );
+  res.send(html);
+}
 
 export async function appendOgImage(
   req: Request,
@@ -12,31 +38,46 @@ export async function appendOgImage(
   next: NextFunction
 ) {
   const id: string = req.params.id;
-  const htmlPath = path.resolve(__dirname, '../../dist/index.html');
   const repository = getRepository(Story);
   try {
     const story = await repository.findOneOrFail(id, {
       select: ['id', 'content']
     });
 
-    let html = fs.readFileSync(htmlPath, 'utf8');
-    const ogImage =
-      req.protocol + '://' + req.hostname + '/media/' + story.id + '.png';
     let description = (JSON.parse(story.content) as Scheme)
       .map(x => x[0])
       .join('');
     description =
       description.length > 197 ? description.slice(0, 197) + '...' : '';
-    const addMeta = [
-      `<meta property="og:image" content="${ogImage}" />`,
-      `<meta property="og:description" content="${description}" />`
-    ];
+    sendWithMeta(req, res, 'media/' + story.id + '.png', description);
+  } catch (error) {
+    res.sendFile(htmlPath);
+  }
+}
 
-    html = html.replace(
-      '<meta charset=utf-8>',
-      `<meta charset=utf-8>${addMeta.join('')}`
+/** The same for the public collections, see `collectionPostcard` */
+export async function appendCollectionOgImage(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  try {
+    const collection = await getRepository(Collection).findOneOrFail(
+      Number(req.params.id)
+    );
+    if (!collection.isPublic) {
+      res.sendFile(htmlPath);
+      return;
+    }
+    const description = escapeHtml(
+      collection.description || collection.title
+    );
+    sendWithMeta(
+      req,
+      res,
+      collection.postcard ? collection.postcard.replace(/\\/g, '/') : null,
+      description
     );
-    res.send(html);
   } catch (error) {
     res.sendFile(htmlPath);
   }
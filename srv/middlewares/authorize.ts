@@ -0,0 +1,31 @@
+import { Request, Response, NextFunction } from 'express';
+import { can, Permission } from '../../src/utils/permissions';
+
+/**
+ * Let the request through when the user has the permission.
+ * Must go after `passport.authenticate` to see the user.
+ */
+export const authorize = (permission: Permission) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (can(req.user, permission)) {
+      next();
+    } else {
+      res.status(req.user ? 403 : 401).send('Not permitted');
+    }
+  };
+};
+
+/**
+ * Let the request through for the user from `req.params.id`
+ * or for the one having the permission.
+ */
+export const authorizeSelf = (permission: Permission) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const isSelf = !!req.user && String(req.user.id) === req.params.id;
+    if (isSelf || can(req.user, permission)) {
+      next();
+    } else {
+      res.status(req.user ? 403 : 401).send('Not permitted');
+    }
+  };
+};
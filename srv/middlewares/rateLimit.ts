@@ -0,0 +1,20 @@
+import { Request, Response, NextFunction } from 'express';
+import { slidingWindow, SlidingWindowOptions } from '../utils/slidingWindow';
+
+/**
+ * In-memory sliding window limit by the authenticated user or by IP.
+ * Must go after `passport.authenticate` to see the user.
+ */
+export const rateLimit = (opt: SlidingWindowOptions) => {
+  const hit = slidingWindow(opt);
+  return (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.user && req.user.id;
+    const retryAfter = hit(userId ? 'user:' + userId : 'ip:' + req.ip);
+    if (retryAfter) {
+      res.set('Retry-After', String(retryAfter));
+      res.status(429).send('Too many requests');
+      return;
+    }
+    next();
+  };
+};
@@ -0,0 +1,136 @@
+import { getRepository, IsNull } from 'typeorm';
+import { Story } from '../entity/Story';
+import { User } from '../entity/User';
+import { Violation } from '../entity/Violation';
+import { ModerationDecision } from '../entity/ModerationDecision';
+import { recordAudit } from '../utils/recordAudit';
+import { notify } from '../notifications';
+import config from '../config';
+
+interface Reputation {
+  upheld: number;
+  dismissed: number;
+}
+
+/** How the moderators decided on the previous reports of the users */
+async function getReputations(userIds: number[]) {
+  const reputations = new Map<number, Reputation>();
+  if (!userIds.length) {
+    return reputations;
+  }
+  const rows: { userId: number; dismissed: string; total: string }[] =
+    await getRepository(Violation)
+      .createQueryBuilder('violation')
+      .innerJoin('violation.decision', 'decision')
+      .where('violation.userId IN (:...userIds)', { userIds })
+      .select('violation.userId', 'userId')
+      .addSelect(
+        "SUM(CASE WHEN decision.action = 'dismiss' THEN 1 ELSE 0 END)",
+        'dismissed'
+      )
+      .addSelect('COUNT(violation.id)', 'total')
+      .groupBy('violation.userId')
+      .getRawMany();
+  rows.forEach(x => {
+    const dismissed = Number(x.dismissed) || 0;
+    reputations.set(Number(x.userId), {
+      upheld: Number(x.total) - dismissed,
+      dismissed
+    });
+  });
+  return reputations;
+}
+
+/**
+ * Weight of every report by the reporter.
+ * Banned and new accounts are not counted, the reputation
+ * moves the weight of the others from 1 up to `maxWeight` or down to 0.
+ */
+async function getWeights(violations: Violation[]) {
+  const rules = config.get('moderation.autoHide');
+  const userIds = violations
+    .map(x => x.userId)
+    .filter((x): x is number => !!x);
+  const users = userIds.length
+    ? await getRepository(User).findByIds(userIds, {
+        select: ['id', 'isBanned', 'createdAt']
+      })
+    : [];
+  const reputations = await getReputations(userIds);
+  const registeredBefore = Date.now() - rules.minAccountAge;
+
+  return violations.map(x => {
+    if (!x.userId) {
+      return rules.guestWeight;
+    }
+    const user = users.find(u => u.id === x.userId);
+    if (
+      !user ||
+      user.isBanned ||
+      new Date(user.createdAt).getTime() > registeredBefore
+    ) {
+      return 0;
+    }
+    const reputation = reputations.get(user.id);
+    const weight = reputation
+      ? 1 + rules.reputationStep * (reputation.upheld - reputation.dismissed)
+      : 1;
+    return Math.min(rules.maxWeight, Math.max(0, weight));
+  });
+}
+
+/**
+ * Hide the story from the gallery when the recent open reports
+ * outweigh the threshold. The reports stay in the moderation queue,
+ * the automatic decision is recorded next to the moderator ones.
+ */
+export async function autoHide(storyId: string): Promise<boolean> {
+  const rules = config.get('moderation.autoHide');
+  if (!rules.enabled) {
+    return false;
+  }
+  const storyRepository = getRepository(Story);
+  const story = await storyRepository.findOne(storyId);
+  if (!story || story.isHidden || story.isBanned) {
+    return false;
+  }
+  const since = Date.now() - rules.window;
+  const violations = (
+    await getRepository(Violation).find({
+      where: { storyId, status: 'open', commentId: IsNull() }
+    })
+  ).filter(x => new Date(x.createdAt).getTime() >= since);
+  const weights = await getWeights(violations);
+  const score = weights.reduce((a, b) => a + b, 0);
+  if (!violations.length || score < rules.threshold) {
+    return false;
+  }
+
+  story.isHidden = true;
+  story.moderationStatus = 'auto-hidden';
+  await storyRepository.save(story);
+  const decisionRepository = getRepository(ModerationDecision);
+  await decisionRepository.save(
+    decisionRepository.create({
+      storyId: story.id,
+      moderatorId: null,
+      action: 'auto-hide',
+      violationsCount: weights.filter(x => x > 0).length,
+      score
+    })
+  );
+  await recordAudit({
+    actorId: null,
+    action: 'story:hide',
+    targetType: 'story',
+    targetId: story.id,
+    details: { auto: true, score }
+  });
+  await notify({
+    userId: story.userId,
+    type: 'moderation',
+    storyId: story.id,
+    details: { action: 'auto-hide' }
+  });
+  return true;
+}
@@ -0,0 +1,31 @@
+import { getRepository } from 'typeorm';
+import { Story } from '../entity/Story';
+import { User } from '../entity/User';
+import { recordAudit } from '../utils/recordAudit';
+
+/**
+ * Apply the saved `isBanned` of the user to all the stories and record it.
+ * The stories banned by a moderator stay banned after unban.
+ */
+export async function cascadeUserBan(
+  user: User,
+  actorId: number | null | undefined,
+  details: Record<string, unknown> = {}
+) {
+  const result = await getRepository(Story)
+    .createQueryBuilder('story')
+    .where('story.userId = :userId', { userId: user.id })
+    .andWhere(
+      '(story.moderationStatus IS NULL OR story.moderationStatus != :banned)',
+      { banned: 'banned' }
+    )
+    .update({ isBanned: user.isBanned })
+    .execute();
+  return recordAudit({
+    actorId,
+    action: user.isBanned ? 'user:ban' : 'user:unban',
+    targetType: 'user',
+    targetId: user.id,
+    details: { ...details, storiesCount: result.affected }
+  });
+}
@@ -0,0 +1,73 @@
+import { EntityManager, In, IsNull } from 'typeorm';
+import { AuditEvent } from '../entity/AuditEvent';
+import { Story } from '../entity/Story';
+import { User } from '../entity/User';
+import { AuditAction, AuditTargetType } from '../../src/interfaces';
+
+/** Ids of the targets having an active `action` event */
+async function findRecorded(
+  manager: EntityManager,
+  action: 'user:ban' | 'story:ban',
+  targetIds: string[]
+) {
+  const events = targetIds.length
+    ? await manager.find(AuditEvent, {
+        where: { action, targetId: In(targetIds), reversedById: IsNull() },
+        select: ['targetId']
+      })
+    : [];
+  return new Set(events.map(x => x.targetId));
+}
+
+/**
+ * The bans made before the audit log have no event to appeal,
+ * record them from the ban fields. Run it once after the update,
+ * the recorded bans are skipped on the next runs.
+ * Returns the number of the recorded events.
+ */
+export async function recordLegacyBans(manager: EntityManager) {
+  const users = await manager.find(User, {
+    where: { isBanned: true },
+    select: ['id']
+  });
+  const userIds = users.map(x => String(x.id));
+  const recordedUsers = await findRecorded(manager, 'user:ban', userIds);
+  // the stories banned before the audit log have no `moderationStatus`,
+  // while the author is banned they are banned with the author
+  const stories = await manager
+    .createQueryBuilder(Story, 'story')
+    .innerJoin('story.user', 'user')
+    .select('story.id')
+    .where('story.isBanned = :isBanned', { isBanned: true })
+    .andWhere(
+      "(story.moderationStatus = 'banned' OR (story.moderationStatus IS NULL AND user.isBanned = :userBanned))",
+      { userBanned: false }
+    )
+    .getMany();
+  const storyIds = stories.map(x => x.id);
+  const recordedStories = await findRecorded(manager, 'story:ban', storyIds);
+
+  const events: AuditEvent[] = [];
+  const add = (
+    action: AuditAction,
+    targetType: AuditTargetType,
+    targetId: string
+  ) =>
+    events.push(
+      manager.create(AuditEvent, {
+        actorId: null,
+        action,
+        targetType,
+        targetId,
+        details: { legacy: true }
+      })
+    );
+  userIds
+    .filter(x => !recordedUsers.has(x))
+    .forEach(x => add('user:ban', 'user', x));
+  storyIds
+    .filter(x => !recordedStories.has(x))
+    .forEach(x => add('story:ban', 'story', x));
+  await manager.save(events);
+  return events.length;
+}
@@ -0,0 +1,35 @@
+import { getRepository } from 'typeorm';
+import { Comment } from '../entity/Comment';
+import { Story } from '../entity/Story';
+import { recordAudit } from '../utils/recordAudit';
+import { notify } from '../notifications';
+
+/** Hide the text of the comment from everyone and record it */
+export async function removeComment(comment: Comment, moderatorId: number) {
+  const wasCounted = !comment.isDeleted && !comment.isRemoved;
+  comment.isRemoved = true;
+  await getRepository(Comment).save(comment);
+  // the author may have deleted it while the reports were open
+  if (wasCounted) {
+    await getRepository(Story).decrement(
+      { id: comment.storyId },
+      'commentsCount',
+      1
+    );
+  }
+  await recordAudit({
+    actorId: moderatorId,
+    action: 'comment:remove',
+    targetType: 'comment',
+    targetId: comment.id,
+    details: { storyId: comment.storyId }
+  });
+  await notify({
+    userId: comment.userId,
+    type: 'moderation',
+    actorId: moderatorId,
+    storyId: comment.storyId,
+    commentId: comment.id,
+    details: { action: 'comment:remove' }
+  });
+}
@@ -0,0 +1,54 @@
+import { getRepository } from 'typeorm';
+import { AuditEvent } from '../entity/AuditEvent';
+import { Story } from '../entity/Story';
+import { User } from '../entity/User';
+import { cascadeUserBan } from './cascadeUserBan';
+import { recordAudit } from '../utils/recordAudit';
+
+/**
+ * Undo the ban or the hiding and record it as a new event.
+ * Resolve with `undefined` when the user or the story does not exist.
+ */
+export async function reverseAuditEvent(
+  event: AuditEvent,
+  actorId: number | null | undefined,
+  details: Record<string, unknown> = {}
+): Promise<AuditEvent | undefined> {
+  details = { ...details, reverses: event.id };
+  let reversal: AuditEvent;
+  if (event.targetType === 'user') {
+    const userRepository = getRepository(User);
+    const user = await userRepository.findOne(event.targetId);
+    if (!user) {
+      return;
+    }
+    user.isBanned = false;
+    await userRepository.save(user);
+    reversal = await cascadeUserBan(user, actorId, details);
+  } else {
+    const storyRepository = getRepository(Story);
+    const story = await storyRepository.findOne(event.targetId);
+    if (!story) {
+      return;
+    }
+    const isBan = event.action === 'story:ban';
+    if (isBan) {
+      story.isBanned = false;
+    } else {
+      story.isHidden = false;
+    }
+    // the new reports can hide the story again
+    story.moderationStatus = null;
+    await storyRepository.save(story);
+    reversal = await recordAudit({
+      actorId,
+      action: isBan ? 'story:unban' : 'story:unhide',
+      targetType: 'story',
+      targetId: story.id,
+      details
+    });
+  }
+  event.reversedById = reversal.id;
+  await getRepository(AuditEvent).save(event);
+  return reversal;
+}
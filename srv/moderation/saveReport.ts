@@ -0,0 +1,51 @@
+import { Request, Response } from 'express';
+import { getRepository, IsNull } from 'typeorm';
+import { Violation } from '../entity/Violation';
+import {
+  MAX_VIOLATION_COMMENT_LENGTH,
+  VIOLATION_REASONS
+} from '../../src/utils/moderation';
+
+/**
+ * Save the report on the story or on its comment from `req.body`.
+ * Sends the error and returns `undefined` when the report is not valid.
+ */
+export async function saveReport(
+  req: Request,
+  res: Response,
+  target: { storyId: string; commentId?: number }
+) {
+  const userId = req.user && req.user.id;
+  const { reason, comment } = req.body;
+  if (!VIOLATION_REASONS.includes(reason)) {
+    res.status(400).send({ code: 'invalid-reason', message: 'Unknown reason' });
+    return;
+  }
+  const repository = getRepository(Violation);
+  const commentId = target.commentId || null;
+  if (userId) {
+    const exist = await repository.count({
+      where: {
+        userId,
+        storyId: target.storyId,
+        commentId: commentId || IsNull(),
+        status: 'open'
+      }
+    });
+    if (exist) {
+      res
+        .status(409)
+        .send({ code: 'already-reported', message: 'Already reported' });
+      return;
+    }
+  }
+  const violation = new Violation();
+  violation.storyId = target.storyId;
+  violation.commentId = commentId;
+  violation.userId = userId;
+  violation.reason = reason;
+  if (typeof comment === 'string' && comment.trim()) {
+    violation.comment = comment.trim().slice(0, MAX_VIOLATION_COMMENT_LENGTH);
+  }
+  return repository.save(violation);
+}
@@ -0,0 +1,74 @@
+import { getRepository, IsNull } from 'typeorm';
+import { Notification } from '../entity/Notification';
+import { NotificationPreferences } from '../entity/NotificationPreferences';
+import { NotificationSettings, NotificationType } from '../../src/interfaces';
+import { NOTIFICATION_TYPES } from '../../src/utils/notifications';
+import { mailNotification } from '../mailer/events';
+
+export interface NotificationData {
+  /** Who is notified, nobody for the stories without the author */
+  userId: number | null | undefined;
+  type: NotificationType;
+  actorId?: number | null;
+  storyId?: string | null;
+  commentId?: number | null;
+  details?: Record<string, unknown>;
+}
+
+/** Like and unlike again or follow and unfollow again notify once */
+const ONCE_PER_ACTOR: NotificationType[] = ['like', 'follow'];
+
+export async function getPreferences(
+  userId: number
+): Promise<NotificationSettings> {
+  const preferences = await getRepository(NotificationPreferences).findOne(
+    userId
+  );
+  const settings = {} as NotificationSettings;
+  NOTIFICATION_TYPES.forEach(x => {
+    settings[x] = preferences ? preferences[x] : true;
+  });
+  return settings;
+}
+
+/**
+ * Save the notification unless the user has turned the type off
+ * or is the actor. The errors are logged only, the action that
+ * notifies must not fail because of them.
+ */
+export async function notify(data: NotificationData) {
+  const { userId, type } = data;
+  if (!userId || userId === data.actorId) {
+    return;
+  }
+  try {
+    if (!(await getPreferences(userId))[type]) {
+      return;
+    }
+    const repository = getRepository(Notification);
+    if (ONCE_PER_ACTOR.includes(type) && data.actorId) {
+      const exists = await repository.count({
+        userId,
+        type,
+        actorId: data.actorId,
+        storyId: data.storyId || IsNull()
+      });
+      if (exists) {
+        return;
+      }
+    }
+    const notification = await repository.save(
+      repository.create({
+        userId,
+        type,
+        actorId: data.actorId || null,
+        storyId: data.storyId || null,
+        commentId: data.commentId || null,
+        details: data.details || null
+      })
+    );
+    await mailNotification(notification);
+  } catch (error) {
+    console.log(error);
+  }
+}
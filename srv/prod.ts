@@ -3,12 +3,21 @@ import { createConnection } from 'typeorm';
 import express from 'express';
 import { api } from './api';
 import { idDef } from './routers/story';
-import { appendOgImage } from './middlewares/appendOgImage';
+import {
+  appendCollectionOgImage,
+  appendOgImage
+} from './middlewares/appendOgImage';
 import { appConfig } from './appConfig';
 import config from './config';
+import { initSearch } from './search';
+import { schedulePurge } from './trash/purge';
+import { scheduleMail } from './mailer/schedule';
 
 createConnection()
   .then(async connection => {
+    await initSearch(connection.manager);
+    schedulePurge(connection.manager);
+    scheduleMail(connection.manager);
     const app = express();
     appConfig(app);
     api(app);
@@ -18,6 +27,7 @@ createConnection()
     const staticConf = { maxAge: '1y', etag: false };
 
     app.use(express.static(publicPath, staticConf));
+    app.use('/c/:id([0-9]+)', appendCollectionOgImage);
     app.use(idDef, appendOgImage);
     const port = config.get('http.port');
     app.listen(port, () => {
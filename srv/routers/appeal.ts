@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import passport from 'passport';
+import AppealController from '../controllers/AppealController';
+import { authorize } from '../middlewares/authorize';
+
+const router = Router();
+
+router.use(passport.authenticate(['jwt'], { session: false }));
+
+router.get('/bans', AppealController.bans);
+router.post('/', AppealController.create);
+
+router.get('/', authorize('user:ban'), AppealController.all);
+router.post('/:id([0-9]+)', authorize('user:ban'), AppealController.decide);
+
+export default router;
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import passport from 'passport';
+import AuditController from '../controllers/AuditController';
+import { authorize } from '../middlewares/authorize';
+
+const router = Router();
+
+router.use(
+  passport.authenticate(['jwt'], { session: false }),
+  authorize('audit:manage')
+);
+
+router.get('/', AuditController.all);
+router.post('/:id([0-9]+)/reverse', AuditController.reverse);
+
+export default router;
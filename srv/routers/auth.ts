@@ -11,7 +11,6 @@ passport.use(new AnonymousStrategy());
 
 // Generate the Token for the user authenticated in the request
 function generateUserToken(req: Request, res: Response) {
-  // @ts-ignore
   const userId = req.user && req.user.uid;
   if (userId) {
     const accessToken = generateAccessToken(userId);
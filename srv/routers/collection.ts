@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import passport from 'passport';
+import CollectionController from '../controllers/CollectionController';
+import { authorize } from '../middlewares/authorize';
+
+const router = Router();
+
+const idDef = '/:id([0-9]+)';
+
+const authorized = [
+  passport.authenticate(['jwt'], { session: false }),
+  authorize('collection:create')
+];
+
+router.get(
+  '/',
+  passport.authenticate(['jwt', 'anonymous'], { session: false }),
+  CollectionController.all
+);
+
+router.get(
+  idDef,
+  passport.authenticate(['jwt', 'anonymous'], { session: false }),
+  CollectionController.one
+);
+
+router.post('/', authorized, CollectionController.create);
+
+router.patch(idDef, authorized, CollectionController.edit);
+
+router.delete(idDef, authorized, CollectionController.delete);
+
+router.post(idDef + '/stories', authorized, CollectionController.addStory);
+
+router.put(idDef + '/stories', authorized, CollectionController.reorder);
+
+router.delete(
+  idDef + '/stories/:storyId',
+  authorized,
+  CollectionController.removeStory
+);
+
+export default router;
@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import passport from 'passport';
+import CommentController from '../controllers/CommentController';
+import { authorize } from '../middlewares/authorize';
+
+const router = Router();
+
+const idDef = '/:id([0-9]+)';
+
+router.patch(
+  idDef,
+  [passport.authenticate(['jwt'], { session: false })],
+  CommentController.edit
+);
+
+router.delete(
+  idDef,
+  [passport.authenticate(['jwt'], { session: false })],
+  CommentController.delete
+);
+
+router.post(
+  idDef + '/violation',
+  [
+    passport.authenticate(['jwt', 'anonymous'], { session: false }),
+    authorize('story:report')
+  ],
+  CommentController.violation
+);
+
+export default router;
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import passport from 'passport';
+import DraftController from '../controllers/DraftController';
+import { authorize } from '../middlewares/authorize';
+
+const router = Router();
+
+router.use(
+  passport.authenticate(['jwt'], { session: false }),
+  authorize('story:create')
+);
+
+router.get('/', DraftController.all);
+router.put('/:id', DraftController.save);
+router.delete('/:id', DraftController.remove);
+
+export default router;
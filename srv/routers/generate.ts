@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import passport from 'passport';
+import GenerateController from '../controllers/GenerateController';
+import { rateLimit } from '../middlewares/rateLimit';
+import { authorize } from '../middlewares/authorize';
+import config from '../config';
+
+const router = Router();
+
+const middlewares = [
+  passport.authenticate(['jwt', 'anonymous'], { session: false }),
+  authorize('story:create'),
+  rateLimit({
+    window: config.get('generator.rateLimit.window'),
+    max: config.get('generator.rateLimit.max')
+  })
+];
+
+router.post('/', middlewares, GenerateController.generate);
+router.post('/stream', middlewares, GenerateController.stream);
+
+export default router;
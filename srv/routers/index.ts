@@ -2,11 +2,31 @@ import { Router } from 'express';
 import auth from './auth';
 import user from './user';
 import story from './story';
+import tag from './tag';
+import generate from './generate';
+import draft from './draft';
+import moderation from './moderation';
+import audit from './audit';
+import appeal from './appeal';
+import comment from './comment';
+import collection from './collection';
+import notification from './notification';
+import mail from './mail';
 
 const routes = Router();
 
 routes.use('/api/story', story);
 routes.use('/auth', auth);
 routes.use('/api/user', user);
+routes.use('/api/tag', tag);
+routes.use('/api/generate', generate);
+routes.use('/api/draft', draft);
+routes.use('/api/moderation', moderation);
+routes.use('/api/audit', audit);
+routes.use('/api/appeal', appeal);
+routes.use('/api/comment', comment);
+routes.use('/api/collection', collection);
+routes.use('/api/notifications', notification);
+routes.use('/api/mail', mail);
 
 export default routes;
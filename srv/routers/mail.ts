@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import passport from 'passport';
+import MailController from '../controllers/MailController';
+
+const router = Router();
+
+router.get('/unsubscribe', MailController.unsubscribePage);
+
+router.post('/unsubscribe', MailController.unsubscribe);
+
+router.get(
+  '/preferences',
+  passport.authenticate(['jwt'], { session: false }),
+  MailController.preferences
+);
+
+router.patch(
+  '/preferences',
+  passport.authenticate(['jwt'], { session: false }),
+  MailController.setPreferences
+);
+
+export default router;
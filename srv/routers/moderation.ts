@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import passport from 'passport';
+import ModerationController from '../controllers/ModerationController';
+import { authorize } from '../middlewares/authorize';
+import { idDef } from './story';
+
+const router = Router();
+
+router.use(
+  passport.authenticate(['jwt'], { session: false }),
+  authorize('story:moderate')
+);
+
+router.get('/', ModerationController.queue);
+router.post(idDef, ModerationController.decide);
+router.get('/comments', ModerationController.comments);
+router.post('/comments/:id([0-9]+)', ModerationController.decideComment);
+
+export default router;
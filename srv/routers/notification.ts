@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import passport from 'passport';
+import NotificationController from '../controllers/NotificationController';
+
+const router = Router();
+
+router.use(passport.authenticate(['jwt'], { session: false }));
+
+router.get('/', NotificationController.all);
+
+router.get('/unread', NotificationController.unread);
+
+router.post('/read', NotificationController.read);
+
+router.get('/preferences', NotificationController.preferences);
+
+router.patch('/preferences', NotificationController.setPreferences);
+
+export default router;
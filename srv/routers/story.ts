@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import passport from 'passport';
 import StoryController from '../controllers/StoryController';
+import CommentController from '../controllers/CommentController';
+import { authorize } from '../middlewares/authorize';
 
 const router = Router();
 
@@ -17,28 +19,79 @@ router.get(
   StoryController.one
 );
 router.get(idDef + '/postcard', [], StoryController.postcard);
+router.get(idDef + '/forks', [], StoryController.forks);
+router.get(
+  idDef + '/revisions',
+  [passport.authenticate(['jwt', 'anonymous'], { session: false })],
+  StoryController.revisions
+);
+
+router.get(
+  idDef + '/comments',
+  [passport.authenticate(['jwt', 'anonymous'], { session: false })],
+  CommentController.all
+);
+
+router.post(
+  idDef + '/comments',
+  [
+    passport.authenticate(['jwt'], { session: false }),
+    authorize('comment:create')
+  ],
+  CommentController.create
+);
 
 router.post(
   '/',
-  [passport.authenticate(['jwt', 'anonymous'], { session: false })],
+  [
+    passport.authenticate(['jwt', 'anonymous'], { session: false }),
+    authorize('story:create')
+  ],
   StoryController.create
 );
 
+router.post(
+  '/claim',
+  [
+    passport.authenticate(['jwt'], { session: false }),
+    authorize('story:create')
+  ],
+  StoryController.claim
+);
+
+router.post(
+  idDef + '/fork',
+  [
+    passport.authenticate(['jwt', 'anonymous'], { session: false }),
+    authorize('story:create')
+  ],
+  StoryController.fork
+);
+
 router.post(
   idDef + '/like',
-  [passport.authenticate(['jwt'], { session: false })],
+  [
+    passport.authenticate(['jwt'], { session: false }),
+    authorize('story:like')
+  ],
   StoryController.like
 );
 
 router.post(
   idDef + '/violation',
-  [passport.authenticate(['jwt', 'anonymous'], { session: false })],
+  [
+    passport.authenticate(['jwt', 'anonymous'], { session: false }),
+    authorize('story:report')
+  ],
   StoryController.violation
 );
 
 router.post(
   idDef + '/dislike',
-  [passport.authenticate(['jwt'], { session: false })],
+  [
+    passport.authenticate(['jwt'], { session: false }),
+    authorize('story:like')
+  ],
   StoryController.dislike
 );
 
@@ -48,6 +101,16 @@ router.patch(
   StoryController.edit
 );
 
-// router.delete(idDef, [], StoryController.delete);
+router.delete(
+  idDef,
+  [passport.authenticate(['jwt', 'anonymous'], { session: false })],
+  StoryController.delete
+);
+
+router.post(
+  idDef + '/restore',
+  [passport.authenticate(['jwt', 'anonymous'], { session: false })],
+  StoryController.restore
+);
 
 export default router;
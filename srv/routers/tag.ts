@@ -0,0 +1,8 @@
+import { Router } from 'express';
+import TagController from '../controllers/TagController';
+
+const router = Router();
+
+router.get('/', [], TagController.all);
+
+export default router;
@@ -1,14 +1,20 @@
 import { Router } from 'express';
 import UserController from '../controllers/UserController';
+import FollowController from '../controllers/FollowController';
 import passport from 'passport';
-import { isSelf } from '../middlewares/isSelf';
-import { isSuperuser } from '../middlewares/isSuperuser';
-// import { isSuperuser } from '../middlewares/isSuperuser';
+import { authorize, authorizeSelf } from '../middlewares/authorize';
 
 const router = Router();
 
 //Get all users
-// router.get('/', [isSuperuser()], UserController.listAll);
+router.get(
+  '/all',
+  [
+    passport.authenticate(['jwt'], { session: false }),
+    authorize('user:manage')
+  ],
+  UserController.listAll
+);
 
 // Get one user
 router.get(
@@ -33,18 +39,70 @@ router.get(
   }
 );
 
+router.get(
+  '/:id/public',
+  passport.authenticate(['jwt', 'anonymous'], { session: false }),
+  UserController.profile
+);
+
+router.get(
+  '/feed/unread',
+  [
+    passport.authenticate(['jwt'], { session: false }),
+    authorize('user:follow')
+  ],
+  FollowController.unread
+);
+
+router.post(
+  '/feed/seen',
+  [
+    passport.authenticate(['jwt'], { session: false }),
+    authorize('user:follow')
+  ],
+  FollowController.seen
+);
+
+router.post(
+  '/:id([0-9]+)/follow',
+  [
+    passport.authenticate(['jwt'], { session: false }),
+    authorize('user:follow')
+  ],
+  FollowController.follow
+);
+
+router.delete(
+  '/:id([0-9]+)/follow',
+  [
+    passport.authenticate(['jwt'], { session: false }),
+    authorize('user:follow')
+  ],
+  FollowController.unfollow
+);
+
 //Create a new user
 router.post('/', UserController.newUser);
 
 //Edit one user
+//Moderators can only ban, see `editUser`
 router.patch(
   '/:id([0-9]+)',
-  passport.authenticate(['jwt'], { session: false }),
-  // [isSelf(), isSuperuser()],
+  [
+    passport.authenticate(['jwt'], { session: false }),
+    authorizeSelf('user:ban')
+  ],
   UserController.editUser
 );
 
 //Delete one user
-router.delete('/:id([0-9]+)', [isSelf()], UserController.deleteUser);
+router.delete(
+  '/:id([0-9]+)',
+  [
+    passport.authenticate(['jwt'], { session: false }),
+    authorizeSelf('user:manage')
+  ],
+  UserController.deleteUser
+);
 
 export default router;
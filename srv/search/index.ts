@@ -0,0 +1,123 @@
+import { EntityManager } from 'typeorm';
+import { Scheme, SearchIn } from '../../src/interfaces';
+import { schemeToText, stemText, tokenize } from './text';
+
+export interface SearchQuery {
+  /** Selects `id` and `rank` of the found stories, lower is more relevant */
+  query: string;
+  parameters: Record<string, string>;
+}
+
+const TABLE = 'story_search';
+
+export const SEARCH_IN: SearchIn[] = ['all', 'user', 'ai'];
+
+/** FTS5 column filters of the match query */
+const FTS_COLUMNS: Record<SearchIn, string> = {
+  all: '',
+  user: 'user : ',
+  ai: 'ai : '
+};
+
+/** Postgres `tsvector` expressions */
+const TS_VECTORS: Record<SearchIn, string> = {
+  all: '("user" || "ai")',
+  user: '"user"',
+  ai: '"ai"'
+};
+
+function isSqlite(manager: EntityManager) {
+  return manager.connection.options.type === 'sqlite';
+}
+
+/**
+ * Create the search index table when it does not exist.
+ * SQLite gets the FTS5 virtual table filled with stemmed words,
+ * other databases (Postgres) get a table of `tsvector` columns.
+ */
+export async function initSearch(manager: EntityManager) {
+  if (isSqlite(manager)) {
+    await manager.query(
+      `CREATE VIRTUAL TABLE IF NOT EXISTS "${TABLE}" USING fts5("storyId" UNINDEXED, "user", "ai")`
+    );
+  } else {
+    await manager.query(
+      `CREATE TABLE IF NOT EXISTS "${TABLE}" ("storyId" varchar PRIMARY KEY, "user" tsvector NOT NULL, "ai" tsvector NOT NULL)`
+    );
+    await manager.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_${TABLE}" ON "${TABLE}" USING GIN (("user" || "ai"))`
+    );
+  }
+}
+
+export async function removeFromSearch(manager: EntityManager, id: string) {
+  const param = isSqlite(manager) ? '?' : '$1';
+  await manager.query(`DELETE FROM "${TABLE}" WHERE "storyId" = ${param}`, [
+    id
+  ]);
+}
+
+export async function indexStory(
+  manager: EntityManager,
+  story: { id: string; content: string }
+) {
+  let scheme: Scheme;
+  try {
+    scheme = JSON.parse(story.content);
+  } catch (er) {
+    return;
+  }
+  await removeFromSearch(manager, story.id);
+  if (isSqlite(manager)) {
+    await manager.query(
+      `INSERT INTO "${TABLE}" ("storyId", "user", "ai") VALUES (?, ?, ?)`,
+      [
+        story.id,
+        stemText(schemeToText(scheme, 'user')).join(' '),
+        stemText(schemeToText(scheme, 'ai')).join(' ')
+      ]
+    );
+  } else {
+    await manager.query(
+      `INSERT INTO "${TABLE}" ("storyId", "user", "ai") VALUES ($1, to_tsvector('russian', $2), to_tsvector('russian', $3))`,
+      [story.id, schemeToText(scheme, 'user'), schemeToText(scheme, 'ai')]
+    );
+  }
+}
+
+/**
+ * Subquery of the stories that contain every word of `query`.
+ * It is joined to the stories query, so the visibility and author filters
+ * apply to every found story. Returns `undefined` when there are no words.
+ */
+export function getSearchQuery(
+  manager: EntityManager,
+  query: string,
+  searchIn: SearchIn = 'all'
+): SearchQuery | undefined {
+  if (!SEARCH_IN.includes(searchIn)) {
+    searchIn = 'all';
+  }
+  if (isSqlite(manager)) {
+    const stems = stemText(query);
+    if (!stems.length) {
+      return;
+    }
+    const column = FTS_COLUMNS[searchIn];
+    return {
+      query: `SELECT "storyId" AS "id", bm25("${TABLE}") AS "rank" FROM "${TABLE}" WHERE "${TABLE}" MATCH :searchMatch`,
+      parameters: {
+        searchMatch: stems.map(x => `${column}"${x}"*`).join(' AND ')
+      }
+    };
+  }
+  const words = tokenize(query);
+  if (!words.length) {
+    return;
+  }
+  const vector = TS_VECTORS[searchIn];
+  return {
+    query: `SELECT "storyId" AS "id", -ts_rank(${vector}, q) AS "rank" FROM "${TABLE}", to_tsquery('russian', :searchQuery) q WHERE ${vector} @@ q`,
+    parameters: { searchQuery: words.map(x => `${x}:*`).join(' & ') }
+  };
+}
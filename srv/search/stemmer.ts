@@ -0,0 +1,56 @@
+// Snowball stemming algorithm for Russian
+// http://snowball.tartarus.org/algorithms/russian/stemmer.html
+
+const RVRE = /^(.*?[аеиоуыэюя])(.*)$/;
+const PERFECTIVE_GERUND = /((ив|ивши|ившись|ыв|ывши|ывшись)|((?<=[ая])(в|вши|вшись)))$/;
+const REFLEXIVE = /(с[яь])$/;
+const ADJECTIVE = /(ее|ие|ые|ое|ими|ыми|ей|ий|ый|ой|ем|им|ым|ом|его|ого|ему|ому|их|ых|ую|юю|ая|яя|ою|ею)$/;
+const PARTICIPLE = /((ивш|ывш|ующ)|((?<=[ая])(ем|нн|вш|ющ|щ)))$/;
+const VERB = /((ила|ыла|ена|ейте|уйте|ите|или|ыли|ей|уй|ил|ыл|им|ым|ен|ило|ыло|ено|ят|ует|уют|ит|ыт|ены|ить|ыть|ишь|ую|ю)|((?<=[ая])(ла|на|ете|йте|ли|й|л|ем|н|ло|но|ет|ют|ны|ть|ешь|нно)))$/;
+const NOUN = /(а|ев|ов|ие|ье|е|иями|ями|ами|еи|ии|и|ией|ей|ой|ий|й|иям|ям|ием|ем|ам|ом|о|у|ах|иях|ях|ы|ь|ию|ью|ю|ия|ья|я)$/;
+const DERIVATIONAL = /.*[^аеиоуыэюя]+[аеиоуыэюя].*ость?$/;
+const DER = /ость?$/;
+const SUPERLATIVE = /(ейше|ейш)$/;
+
+export function stem(word: string): string {
+  word = word.toLowerCase().replace(/ё/g, 'е');
+  const match = RVRE.exec(word);
+  if (!match || !match[2]) {
+    return word;
+  }
+  const start = match[1];
+  let rv = match[2];
+
+  // Step 1
+  let temp = rv.replace(PERFECTIVE_GERUND, '');
+  if (temp === rv) {
+    rv = rv.replace(REFLEXIVE, '');
+    temp = rv.replace(ADJECTIVE, '');
+    if (temp !== rv) {
+      rv = temp.replace(PARTICIPLE, '');
+    } else {
+      temp = rv.replace(VERB, '');
+      rv = temp === rv ? rv.replace(NOUN, '') : temp;
+    }
+  } else {
+    rv = temp;
+  }
+
+  // Step 2
+  rv = rv.replace(/и$/, '');
+
+  // Step 3
+  if (DERIVATIONAL.test(rv)) {
+    rv = rv.replace(DER, '');
+  }
+
+  // Step 4
+  temp = rv.replace(/ь$/, '');
+  if (temp === rv) {
+    rv = rv.replace(SUPERLATIVE, '').replace(/нн$/, 'н');
+  } else {
+    rv = temp;
+  }
+
+  return start + rv;
+}
@@ -0,0 +1,60 @@
+import { Scheme, SearchIn } from '../../src/interfaces';
+import { escapeHtml } from '../../src/utils/escapeHtml';
+import { stem } from './stemmer';
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+export function schemeToText(scheme: Scheme, searchIn: SearchIn = 'all') {
+  return scheme
+    .filter(
+      x =>
+        searchIn === 'all' ||
+        (searchIn === 'user' && x[1] === 0) ||
+        (searchIn === 'ai' && x[1] === 1)
+    )
+    .map(x => x[0])
+    .join('');
+}
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(WORD) || [];
+}
+
+export function stemText(text: string): string[] {
+  return tokenize(text).map(x => stem(x));
+}
+
+/**
+ * Cut the piece of `text` around the first word matching one of `stems`
+ * and wrap the matched words in `<mark>`. Returns escaped HTML.
+ */
+export function highlight(text: string, stems: string[], size = 200) {
+  const matches: [number, number][] = [];
+  const re = new RegExp(WORD.source, WORD.flags);
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(text))) {
+    const wordStem = stem(match[0]);
+    if (stems.some(x => wordStem.startsWith(x))) {
+      matches.push([match.index, match.index + match[0].length]);
+    }
+  }
+  if (!matches.length) {
+    return '';
+  }
+  const start = Math.max(0, matches[0][0] - Math.round(size / 4));
+  const end = Math.min(text.length, start + size);
+  let html = start > 0 ? '…' : '';
+  let pos = start;
+  matches
+    .filter(x => x[0] >= start && x[1] <= end)
+    .forEach(([from, to]) => {
+      html += escapeHtml(text.slice(pos, from));
+      html += '<mark>' + escapeHtml(text.slice(from, to)) + '</mark>';
+      pos = to;
+    });
+  html += escapeHtml(text.slice(pos, end));
+  if (end < text.length) {
+    html += '…';
+  }
+  return html.replace(/\n/g, ' ');
+}
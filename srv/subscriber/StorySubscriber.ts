@@ -0,0 +1,36 @@
+import {
+  EventSubscriber,
+  EntitySubscriberInterface,
+  InsertEvent,
+  UpdateEvent,
+  RemoveEvent
+} from 'typeorm';
+import { Story } from '../entity/Story';
+import { indexStory, removeFromSearch } from '../search';
+
+@EventSubscriber()
+export class StorySubscriber implements EntitySubscriberInterface<Story> {
+  listenTo() {
+    return Story;
+  }
+
+  async afterInsert(event: InsertEvent<Story>) {
+    await indexStory(event.manager, event.entity);
+  }
+
+  async afterUpdate(event: UpdateEvent<Story>) {
+    const contentChanged = event.updatedColumns.some(
+      x => x.propertyName === 'content'
+    );
+    if (event.entity && contentChanged) {
+      await indexStory(event.manager, event.entity as Story);
+    }
+  }
+
+  async afterRemove(event: RemoveEvent<Story>) {
+    const story = event.databaseEntity || event.entity;
+    if (story && story.id) {
+      await removeFromSearch(event.manager, story.id);
+    }
+  }
+}
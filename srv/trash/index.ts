@@ -0,0 +1,30 @@
+import config from '../config';
+import { Story } from '../entity/Story';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/** When the deleted story will be removed for good */
+export function getTrashExpiry(story: Pick<Story, 'deletedAt'>) {
+  return story.deletedAt
+    ? new Date(
+        new Date(story.deletedAt).getTime() +
+          config.get('trash.retention') * DAY
+      )
+    : null;
+}
+
+export function moveToTrash(story: Story) {
+  story.isDeleted = true;
+  story.deletedAt = new Date();
+}
+
+/** Returns `false` when the retention period has passed */
+export function restoreFromTrash(story: Story) {
+  const expiresAt = getTrashExpiry(story);
+  if (expiresAt && expiresAt.getTime() <= Date.now()) {
+    return false;
+  }
+  story.isDeleted = false;
+  story.deletedAt = null;
+  return true;
+}
@@ -0,0 +1,71 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { EntityManager } from 'typeorm';
+import config from '../config';
+import { CollectionItem } from '../entity/CollectionItem';
+import { Comment } from '../entity/Comment';
+import { Like } from '../entity/Like';
+import { ModerationDecision } from '../entity/ModerationDecision';
+import { Notification } from '../entity/Notification';
+import { Story } from '../entity/Story';
+import { StoryRevision } from '../entity/StoryRevision';
+import { Violation } from '../entity/Violation';
+import { getTrashExpiry } from '.';
+
+/** The path is derived from the id, the stored `postcard` is not trusted */
+async function removePostcard(id: string) {
+  await fs.unlink(path.join('media', id + '.png')).catch(() => undefined);
+}
+
+/**
+ * Remove the stories deleted longer than `trash.retention` days ago
+ * with their likes, reports, comments, collection items, notifications,
+ * revisions and postcards.
+ * Returns the number of the removed stories.
+ */
+export async function purgeTrash(manager: EntityManager) {
+  const repository = manager.getRepository(Story);
+  const deleted = await repository.find({
+    where: { isDeleted: true },
+    select: ['id', 'deletedAt']
+  });
+  // the stories deleted before the trash have no date, keep them from now
+  const undated = deleted.filter(x => !x.deletedAt).map(x => x.id);
+  if (undated.length) {
+    await repository.update(undated, { deletedAt: new Date() });
+  }
+  const now = Date.now();
+  const expired = deleted.filter(x => {
+    const expiresAt = getTrashExpiry(x);
+    return expiresAt && expiresAt.getTime() <= now;
+  });
+  for (const story of expired) {
+    // `remove` clears the id of the entity
+    const { id } = story;
+    await manager.transaction(async transaction => {
+      const where = { storyId: id };
+      // without the entity hooks, the counters are removed with the story
+      await transaction.delete(Like, where);
+      await transaction.delete(Violation, where);
+      await transaction.delete(Comment, where);
+      await transaction.delete(CollectionItem, where);
+      await transaction.delete(Notification, where);
+      await transaction.delete(ModerationDecision, where);
+      await transaction.delete(StoryRevision, where);
+      await transaction.remove(story);
+    });
+    await removePostcard(id);
+  }
+  return expired.length;
+}
+
+/** Run `purgeTrash` every `trash.purgeInterval` milliseconds */
+export function schedulePurge(manager: EntityManager) {
+  const interval = config.get('trash.purgeInterval');
+  if (!interval) {
+    return;
+  }
+  const run = () => purgeTrash(manager).catch(error => console.log(error));
+  run();
+  setInterval(run, interval);
+}
@@ -0,0 +1,19 @@
+import { User as UserEntity } from '../entity/User';
+
+declare global {
+  namespace Express {
+    /** Fields selected by the `jwt` strategy */
+    interface User
+      extends Pick<
+        UserEntity,
+        | 'id'
+        | 'uid'
+        | 'username'
+        | 'photoUrl'
+        | 'isSuperuser'
+        | 'isBanned'
+        | 'role'
+        | 'generationSettings'
+      > {}
+  }
+}
@@ -0,0 +1,105 @@
+export type CursorValue = string | number;
+
+export interface KeyedId {
+  id: string;
+  key: number;
+}
+
+export function encodeCursor(value: CursorValue, id: string): string {
+  return Buffer.from(JSON.stringify([value, id])).toString('base64');
+}
+
+export function decodeCursor(cursor: string): [CursorValue, string] {
+  const parsed = JSON.parse(Buffer.from(cursor, 'base64').toString('utf8'));
+  if (
+    !Array.isArray(parsed) ||
+    parsed.length !== 2 ||
+    !['string', 'number'].includes(typeof parsed[0]) ||
+    typeof parsed[1] !== 'string'
+  ) {
+    throw new Error('Invalid cursor');
+  }
+  return parsed as [CursorValue, string];
+}
+
+/**
+ * 32-bit FNV-1a hash of `id` salted with `seed`.
+ * Gives every story a stable pseudo-random position for the given seed,
+ * so the random order does not change from page to page.
+ */
+export function seededKey(seed: string, id: string): number {
+  const str = seed + ':' + id;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    hash ^= str.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function generateSeed(): string {
+  return Math.random()
+    .toString(36)
+    .slice(2, 10);
+}
+
+const compareKeyedIds = (a: KeyedId, b: KeyedId) =>
+  a.key === b.key ? (a.id < b.id ? -1 : a.id > b.id ? 1 : 0) : a.key - b.key;
+
+/** Order ids by `key` ascending, `id` ascending */
+export function sortKeyedIds(items: KeyedId[]): KeyedId[] {
+  return [...items].sort(compareKeyedIds);
+}
+
+/**
+ * Page over ids sorted with `sortKeyedIds`.
+ * Return one more item than `limit` when there is a next page.
+ */
+export function pageKeyedIds(
+  sorted: KeyedId[],
+  limit: number,
+  cursor?: [CursorValue, string]
+): KeyedId[] {
+  let start = 0;
+  if (cursor) {
+    const [key, id] = cursor;
+    start = sorted.findIndex(x => x.key > key || (x.key === key && x.id > id));
+    if (start === -1) {
+      return [];
+    }
+  }
+  return sorted.slice(start, start + limit + 1);
+}
+
+export interface KeyedIdsCacheOptions {
+  /** Lifetime of the entry in milliseconds */
+  ttl: number;
+  /** Entries kept, the oldest one is dropped first */
+  max: number;
+}
+
+/**
+ * In-memory cache of the sorted ids by the query, so the next pages
+ * of the random order do not load and sort all the matching ids again.
+ */
+export const keyedIdsCache = (opt: KeyedIdsCacheOptions) => {
+  const entries = new Map<string, { items: KeyedId[]; expiresAt: number }>();
+  return {
+    get(key: string): KeyedId[] | undefined {
+      const entry = entries.get(key);
+      if (entry && entry.expiresAt < Date.now()) {
+        entries.delete(key);
+        return;
+      }
+      return entry && entry.items;
+    },
+
+    set(key: string, items: KeyedId[]) {
+      entries.delete(key);
+      if (entries.size >= opt.max) {
+        entries.delete(entries.keys().next().value);
+      }
+      entries.set(key, { items, expiresAt: Date.now() + opt.ttl });
+    }
+  };
+};
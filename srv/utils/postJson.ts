@@ -0,0 +1,130 @@
+import http from 'http';
+import https from 'https';
+
+export interface PostJsonOptions {
+  /** Milliseconds to wait for the response */
+  timeout?: number;
+}
+
+export function postJson<T = any>(
+  url: string,
+  body: unknown,
+  opt: PostJsonOptions = {}
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const data = JSON.stringify(body);
+    const target = new URL(url);
+    const client = target.protocol === 'https:' ? https : http;
+    const request = client.request(
+      target,
+      {
+        method: 'POST',
+        timeout: opt.timeout,
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(data)
+        }
+      },
+      resp => {
+        let raw = '';
+        resp.setEncoding('utf8');
+        resp.on('data', chunk => {
+          raw += chunk;
+        });
+        resp.on('end', () => {
+          if (resp.statusCode && resp.statusCode >= 400) {
+            reject(
+              new Error(`Request failed with status ${resp.statusCode}`)
+            );
+            return;
+          }
+          try {
+            resolve(JSON.parse(raw));
+          } catch (er) {
+            reject(er);
+          }
+        });
+      }
+    );
+    request.on('timeout', () => {
+      request.destroy(new Error('Request timeout'));
+    });
+    request.on('error', reject);
+    request.end(data);
+  });
+}
+
+export interface PostJsonLinesOptions extends PostJsonOptions {
+  /** Drop the connection as soon as it returns true */
+  isAborted?: () => boolean;
+}
+
+/**
+ * POST `body` and call `onLine` for every JSON line of the response
+ * as soon as it is received.
+ */
+export function postJsonLines<T = any>(
+  url: string,
+  body: unknown,
+  onLine: (line: T) => void,
+  opt: PostJsonLinesOptions = {}
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const data = JSON.stringify(body);
+    const target = new URL(url);
+    const client = target.protocol === 'https:' ? https : http;
+    const request = client.request(
+      target,
+      {
+        method: 'POST',
+        timeout: opt.timeout,
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(data)
+        }
+      },
+      resp => {
+        if (resp.statusCode && resp.statusCode >= 400) {
+          resp.resume();
+          reject(new Error(`Request failed with status ${resp.statusCode}`));
+          return;
+        }
+        let buffer = '';
+        const flush = (line: string) => {
+          if (line.trim()) {
+            onLine(JSON.parse(line));
+          }
+        };
+        resp.setEncoding('utf8');
+        resp.on('data', chunk => {
+          if (opt.isAborted && opt.isAborted()) {
+            request.destroy();
+            resolve();
+            return;
+          }
+          buffer += chunk;
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
+          try {
+            lines.forEach(flush);
+          } catch (er) {
+            request.destroy(er);
+          }
+        });
+        resp.on('end', () => {
+          try {
+            flush(buffer);
+            resolve();
+          } catch (er) {
+            reject(er);
+          }
+        });
+      }
+    );
+    request.on('timeout', () => {
+      request.destroy(new Error('Request timeout'));
+    });
+    request.on('error', reject);
+    request.end(data);
+  });
+}
@@ -5,6 +5,7 @@ import config from '../../config';
 import { Scheme } from '../../src/interfaces';
 import { escapeHtml } from '../../src/utils/escapeHtml';
 import { Story } from '../entity/Story';
+import { Collection } from '../entity/Collection';
 
 interface DomScreenshotOptions {
   selector: string;
@@ -14,6 +15,25 @@ interface DomScreenshotOptions {
 }
 
 export async function postcard(story: Story) {
+  const postcardPath = path.join('media', story.id + '.png');
+  await render(getHtml(getStoryBody(story)), postcardPath);
+  return postcardPath;
+}
+
+export const getCollectionPostcardPath = (id: number) =>
+  path.join('media', 'collection-' + id + '.png');
+
+/** Title, description and the first stories of the collection */
+export async function collectionPostcard(
+  collection: Collection,
+  stories: Story[]
+) {
+  const postcardPath = getCollectionPostcardPath(collection.id);
+  await render(getHtml(getCollectionBody(collection, stories)), postcardPath);
+  return postcardPath;
+}
+
+async function render(html: string, postcardPath: string) {
   const browser = await puppeteer.launch({
     ignoreDefaultArgs: ['--disable-extensions']
   });
@@ -23,8 +43,7 @@ export async function postcard(story: Story) {
     height: 200000,
     deviceScaleFactor: 1
   });
-  const postcardPath = path.join('media', story.id + '.png');
-  await page.setContent(getHtml(story));
+  await page.setContent(html);
   await screenshotDOMElement({
     page,
     path: postcardPath,
@@ -32,7 +51,6 @@ export async function postcard(story: Story) {
     padding: 0
   });
   await browser.close();
-  return postcardPath;
 }
 
 async function screenshotDOMElement(opts: DomScreenshotOptions) {
@@ -64,9 +82,8 @@ async function screenshotDOMElement(opts: DomScreenshotOptions) {
   });
 }
 
-function getHtml(story: Story) {
+function getStoryBody(story: Story) {
   let fontSize = 6;
-  const site = config.site;
   const color = config.primaryColor;
   const content = JSON.parse(story.content) as Scheme;
   let length = 0;
@@ -90,6 +107,31 @@ function getHtml(story: Story) {
   if (size) {
     fontSize = size[1];
   }
+  return `
+      <div class="story" style="font-size=${fontSize}px">
+      ${text}
+      </div>`;
+}
+
+function getCollectionBody(collection: Collection, stories: Story[]) {
+  const previews = stories.slice(0, 5).map(x => {
+    const text = (JSON.parse(x.content) as Scheme).map(y => y[0]).join('');
+    const preview = text.length > 100 ? text.slice(0, 100) + '…' : text;
+    return `<li>${escapeHtml(preview).replace(/\n/g, ' ')}</li>`;
+  });
+  const description = collection.description
+    ? `<div class="subtitle">${escapeHtml(collection.description)}</div>`
+    : '';
+  return `
+      <div class="collection">
+        <div class="story">${escapeHtml(collection.title)}</div>
+        ${description}
+        <ol>${previews.join('')}</ol>
+      </div>`;
+}
+
+function getHtml(body: string) {
+  const site = config.site;
   return `
 <!DOCTYPE html>
 <html lang="en">
@@ -134,15 +176,16 @@ function getHtml(story: Story) {
       margin: 10px 0 15px 0;
       font-size: 40px;
     }
+    .collection ol {
+      font-size: 28px;
+      color: rgba(0, 0, 0, .7);
+    }
   </style>
 </head>
 
 <body>
   <div id="postcard">
-    <div class="content">
-      <div class="story" style="font-size=${fontSize}px">
-      ${text}
-      </div>
+    <div class="content">${body}
 
       <div class="footer">
         <div class="left">
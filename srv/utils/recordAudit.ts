@@ -0,0 +1,25 @@
+import { getRepository } from 'typeorm';
+import { AuditEvent } from '../entity/AuditEvent';
+import { AuditAction, AuditTargetType } from '../../src/interfaces';
+
+export interface AuditEventData {
+  /** `null` for the automatic actions */
+  actorId: number | null | undefined;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string | number;
+  details?: Record<string, unknown>;
+}
+
+export async function recordAudit(data: AuditEventData) {
+  const repository = getRepository(AuditEvent);
+  return repository.save(
+    repository.create({
+      actorId: data.actorId || null,
+      action: data.action,
+      targetType: data.targetType,
+      targetId: String(data.targetId),
+      details: data.details || null
+    })
+  );
+}
@@ -0,0 +1,32 @@
+export interface SlidingWindowOptions {
+  /** Window in milliseconds */
+  window: number;
+  /** Hits allowed in the window */
+  max: number;
+}
+
+/**
+ * In-memory sliding window counter. The returned function counts a hit of
+ * the key and returns 0, or the seconds to wait when the key is over the limit.
+ */
+export const slidingWindow = (opt: SlidingWindowOptions) => {
+  const hits = new Map<string, number[]>();
+  return (key: string) => {
+    const now = Date.now();
+    const from = now - opt.window;
+    if (hits.size > 10000) {
+      hits.forEach((times, k) => {
+        if (!times.some(x => x > from)) {
+          hits.delete(k);
+        }
+      });
+    }
+    const times = (hits.get(key) || []).filter(x => x > from);
+    if (times.length >= opt.max) {
+      return Math.max(1, Math.ceil((times[0] - from) / 1000));
+    }
+    times.push(now);
+    hits.set(key, times);
+    return 0;
+  };
+};
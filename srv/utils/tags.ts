@@ -0,0 +1,49 @@
+import { getRepository, In } from 'typeorm';
+import { Tag } from '../entity/Tag';
+
+export const MAX_TAGS = 5;
+export const MAX_TAG_LENGTH = 20;
+
+/**
+ * Accept tags as an array or a comma separated string,
+ * return unique lowercase names without `#`.
+ */
+export function normalizeTags(tags: unknown): string[] {
+  let list: unknown[] = [];
+  if (Array.isArray(tags)) {
+    list = tags;
+  } else if (typeof tags === 'string') {
+    list = tags.split(',');
+  }
+  const names: string[] = [];
+  list.forEach(x => {
+    if (typeof x !== 'string') {
+      return;
+    }
+    const name = x
+      .replace(/[#,%_]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .toLowerCase()
+      .slice(0, MAX_TAG_LENGTH);
+    if (name && !names.includes(name)) {
+      names.push(name);
+    }
+  });
+  return names.slice(0, MAX_TAGS);
+}
+
+export async function findOrCreateTags(names: string[]): Promise<Tag[]> {
+  if (!names.length) {
+    return [];
+  }
+  const repository = getRepository(Tag);
+  const exist = await repository.find({ where: { name: In(names) } });
+  const created = names
+    .filter(x => !exist.find(y => y.name === x))
+    .map(name => repository.create({ name }));
+  if (created.length) {
+    await repository.save(created);
+  }
+  return [...exist, ...created];
+}
@@ -0,0 +1,70 @@
+import { getRepository } from 'typeorm';
+import { Scheme } from '../../src/interfaces';
+import { Reply } from '../entity/Reply';
+
+const REPLIES_LIMIT = 2000;
+
+/**
+ * Check that `fragment` is a piece of one of the `replies` or whole replies
+ * one after another: the editor merges adjacent AI insertions into one
+ * fragment. Pieces of different replies can not be glued together,
+ * otherwise any text could be assembled from single characters.
+ */
+export function isGenerated(fragment: string, replies: string[]) {
+  const text = fragment.trim();
+  if (!text || replies.some(x => x.includes(text))) {
+    return true;
+  }
+  const whole = replies.map(x => x.trim()).filter(x => x);
+  // positions of `text` reachable by the whole replies from the start
+  const reached = new Set<number>([0]);
+  const queue = [0];
+  while (queue.length) {
+    let start = queue.shift() as number;
+    while (start < text.length && /\s/.test(text[start])) {
+      start++;
+    }
+    if (start === text.length) {
+      return true;
+    }
+    whole.forEach(x => {
+      const end = start + x.length;
+      if (!reached.has(end) && text.startsWith(x, start)) {
+        reached.add(end);
+        queue.push(end);
+      }
+    });
+  }
+  return false;
+}
+
+export async function getIssuedReplies(opt: {
+  userId?: number;
+  sessionId?: string;
+}): Promise<string[]> {
+  if (!opt.userId && !opt.sessionId) {
+    return [];
+  }
+  const list = getRepository(Reply)
+    .createQueryBuilder('reply')
+    .select('reply.text')
+    .orderBy('reply.createdAt', 'DESC')
+    .take(REPLIES_LIMIT);
+  if (opt.userId) {
+    list.where('reply.userId = :userId', { userId: opt.userId });
+  }
+  if (opt.sessionId) {
+    list.orWhere('reply.sessionId = :sessionId', { sessionId: opt.sessionId });
+  }
+  const replies = await list.getMany();
+  return replies.map(x => x.text);
+}
+
+/**
+ * Every AI fragment (`1`) of the `scheme` must come from the `replies`.
+ */
+export function verifyScheme(scheme: Scheme, replies: string[]) {
+  return scheme
+    .filter(x => x[1] === 1)
+    .every(x => isGenerated(x[0], replies));
+}
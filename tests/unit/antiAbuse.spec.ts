@@ -0,0 +1,212 @@
+import 'reflect-metadata';
+import path from 'path';
+import { Connection, createConnection, getRepository } from 'typeorm';
+import config from '../../srv/config';
+import { BannedWordsRule } from '../../srv/antiAbuse/bannedWords';
+import { DuplicatesRule } from '../../srv/antiAbuse/duplicates';
+import { PublishContext } from '../../srv/antiAbuse/interfaces';
+import { LinksRule } from '../../srv/antiAbuse/links';
+import { RateLimitRule } from '../../srv/antiAbuse/rateLimit';
+import { hammingDistance, simhash } from '../../srv/antiAbuse/simhash';
+import { UserTextRule } from '../../srv/antiAbuse/userText';
+import { Story } from '../../srv/entity/Story';
+import { User } from '../../srv/entity/User';
+import { tokenize } from '../../srv/search/text';
+import { Scheme } from '../../src/interfaces';
+
+const text =
+  'Жил был у бабушки серенький козлик, вот как, вот как, серенький козлик. ' +
+  'Бабушка козлика очень любила, вот как, вот как, очень любила.';
+
+const context = (scheme: Scheme): PublishContext => ({
+  ip: '127.0.0.1',
+  scheme,
+  simhash: '',
+  content: JSON.stringify(scheme)
+});
+
+// the rules read the config in their constructors, every test sets its own
+let antiAbuse = config.get('antiAbuse');
+
+beforeEach(() => {
+  antiAbuse = config.get('antiAbuse');
+});
+
+afterEach(() => {
+  config.set('antiAbuse', antiAbuse);
+});
+
+describe('LinksRule', () => {
+  it('rejects the user text with too many links', () => {
+    config.set('antiAbuse.maxLinks', 1);
+    const rule = new LinksRule();
+    expect(rule.check(context([['Смотри example.com', 0]]))).toBeUndefined();
+    const violation = rule.check(
+      context([['Смотри example.com и https://example.org/page', 0]])
+    );
+    expect(violation && violation.code).toBe('link-spam');
+  });
+
+  it('does not count the links of the AI text', () => {
+    config.set('antiAbuse.maxLinks', 0);
+    const rule = new LinksRule();
+    expect(rule.check(context([['example.com', 1]]))).toBeUndefined();
+  });
+});
+
+describe('BannedWordsRule', () => {
+  it('matches the words and the prefixes', () => {
+    config.set('antiAbuse.bannedWords', ['спам', 'реклам*']);
+    const rule = new BannedWordsRule();
+    expect(rule.check(context([['Обычный текст', 0]]))).toBeUndefined();
+    expect(rule.check(context([['Это спам', 0]]))).toBeDefined();
+    expect(rule.check(context([['Рекламный текст', 0]]))).toBeDefined();
+    expect(rule.check(context([['Антиспам', 0]]))).toBeUndefined();
+  });
+});
+
+describe('UserTextRule', () => {
+  it('rejects the stories written by the AI almost entirely', () => {
+    config.set('antiAbuse.minUserTextRatio', 0.1);
+    const rule = new UserTextRule();
+    const ai = 'Очень длинный текст нейросети. '.repeat(10);
+    const own: Scheme = [
+      ['Да', 0],
+      [ai, 1]
+    ];
+    const half: Scheme = [
+      [ai, 0],
+      [ai, 1]
+    ];
+    expect(rule.check(context(own))).toBeDefined();
+    expect(rule.check(context(half))).toBeUndefined();
+  });
+});
+
+describe('RateLimitRule', () => {
+  it('limits the stories of the user', () => {
+    config.set('antiAbuse.rateLimit.maxPerUser', 2);
+    const rule = new RateLimitRule();
+    const ctx = { ...context([['Текст', 0]]), userId: 1 };
+    expect(rule.check(ctx)).toBeUndefined();
+    expect(rule.check({ ...ctx, ip: '127.0.0.2' })).toBeUndefined();
+    const violation = rule.check({ ...ctx, ip: '127.0.0.3' });
+    expect(violation && violation.code).toBe('rate-limited');
+    expect(violation && violation.retryAfter).toBeGreaterThan(0);
+    expect(rule.check({ ...ctx, userId: 2 })).toBeUndefined();
+  });
+
+  it('limits the anonymous stories by the IP', () => {
+    config.set('antiAbuse.rateLimit.maxPerIp', 1);
+    const rule = new RateLimitRule();
+    const ctx = context([['Текст', 0]]);
+    expect(rule.check(ctx)).toBeUndefined();
+    expect(rule.check(ctx)).toBeDefined();
+    expect(rule.check({ ...ctx, ip: '127.0.0.2' })).toBeUndefined();
+  });
+});
+
+describe('simhash', () => {
+  it('gives the near hashes to the similar texts', () => {
+    const a = simhash(tokenize(text));
+    const b = simhash(tokenize(text + ' Вот так.'));
+    const c = simhash(tokenize('Совсем другая история про звёзды и ракеты.'));
+    expect(a).toHaveLength(16);
+    expect(hammingDistance(a, a)).toBe(0);
+    expect(hammingDistance(a, b)).toBeLessThan(hammingDistance(a, c));
+  });
+});
+
+describe('DuplicatesRule', () => {
+  let connection: Connection;
+  let author: User;
+
+  const longContext = (
+    scheme: Scheme,
+    opt: Partial<PublishContext> = {}
+  ): PublishContext => ({
+    ...context(scheme),
+    simhash: simhash(tokenize(scheme.map(x => x[0]).join(''))),
+    ...opt
+  });
+
+  const saveStory = (scheme: Scheme, opt: Partial<Story> = {}) => {
+    const ctx = longContext(scheme);
+    return getRepository(Story).save(
+      getRepository(Story).create({
+        content: ctx.content,
+        simhash: ctx.simhash,
+        ...opt
+      })
+    );
+  };
+
+  beforeAll(async () => {
+    connection = await createConnection({
+      type: 'sqlite',
+      database: ':memory:',
+      entities: [path.join(__dirname, '../../srv/entity/*.ts')],
+      synchronize: true
+    });
+    author = await getRepository(User).save(
+      getRepository(User).create({ username: 'author', password: 'secret' })
+    );
+  });
+
+  afterAll(async () => {
+    await connection.close();
+  });
+
+  afterEach(async () => {
+    await getRepository(Story).clear();
+  });
+
+  it('rejects the own long repost of the author', async () => {
+    await saveStory([[text, 0]], { userId: author.id, visibility: 'private' });
+    const violation = await new DuplicatesRule().check(
+      longContext([[text, 0]], { userId: author.id })
+    );
+    expect(violation && violation.code).toBe('duplicate');
+  });
+
+  it('rejects the anonymous near duplicate of an unlisted story', async () => {
+    await saveStory([[text, 0]], { visibility: 'unlisted' });
+    const violation = await new DuplicatesRule().check(
+      longContext([[text + ' Вот так.', 0]])
+    );
+    expect(violation && violation.code).toBe('duplicate');
+  });
+
+  it('skips the deleted, the parent and the edited stories', async () => {
+    await saveStory([[text, 0]], { isDeleted: true });
+    const parent = await saveStory([[text, 0]], { visibility: 'public' });
+    const rule = new DuplicatesRule();
+    const ctx = longContext([[text, 0]], { userId: author.id });
+    expect(await rule.check({ ...ctx, parentId: parent.id })).toBeUndefined();
+    expect(await rule.check({ ...ctx, storyId: parent.id })).toBeUndefined();
+    expect(await rule.check(ctx)).toBeDefined();
+  });
+
+  it('rejects the short repost of the same author only', async () => {
+    const scheme: Scheme = [['Короткий текст', 0]];
+    await saveStory(scheme, { userId: author.id, simhash: null });
+    const rule = new DuplicatesRule();
+    expect(
+      await rule.check({ ...context(scheme), userId: author.id })
+    ).toBeDefined();
+    expect(await rule.check(context(scheme))).toBeUndefined();
+  });
+
+  it('bans the author after `banAfter` duplicates a day', async () => {
+    config.set('antiAbuse.duplicates.banAfter', 2);
+    await saveStory([[text, 0]], { userId: author.id });
+    const rule = new DuplicatesRule();
+    const ctx = longContext([[text, 0]], { userId: author.id });
+    const bans = [];
+    for (let i = 0; i < 3; i++) {
+      const violation = await rule.check(ctx);
+      bans.push(violation && violation.banUser);
+    }
+    expect(bans).toEqual([false, false, true]);
+  });
+});
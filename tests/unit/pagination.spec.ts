@@ -0,0 +1,96 @@
+import {
+  decodeCursor,
+  encodeCursor,
+  keyedIdsCache,
+  KeyedId,
+  pageKeyedIds,
+  seededKey,
+  sortKeyedIds
+} from '../../srv/utils/pagination';
+
+const ids = Array.from({ length: 25 }, (_, i) => 'story' + i);
+
+describe('cursor', () => {
+  it('decodes the encoded value and id', () => {
+    expect(decodeCursor(encodeCursor('2020-01-01', 'abc'))).toEqual([
+      '2020-01-01',
+      'abc'
+    ]);
+    expect(decodeCursor(encodeCursor(5, 'abc'))).toEqual([5, 'abc']);
+  });
+
+  it('throws on the invalid cursor', () => {
+    expect(() => decodeCursor('nonsense')).toThrow();
+    const wrong = Buffer.from(JSON.stringify([{}, 1])).toString('base64');
+    expect(() => decodeCursor(wrong)).toThrow('Invalid cursor');
+  });
+});
+
+describe('seeded order', () => {
+  it('gives the same key for the same seed', () => {
+    expect(seededKey('seed', 'abc')).toBe(seededKey('seed', 'abc'));
+    expect(seededKey('seed', 'abc')).not.toBe(seededKey('other', 'abc'));
+  });
+
+  it('pages over every id once in the same order', () => {
+    const sorted = sortKeyedIds(
+      ids.map(id => ({ id, key: seededKey('seed', id) }))
+    );
+    const seen: string[] = [];
+    let cursor: [number, string] | undefined;
+    for (;;) {
+      const page = pageKeyedIds(sorted, 10, cursor);
+      const items = page.slice(0, 10);
+      seen.push(...items.map(x => x.id));
+      if (page.length <= 10) {
+        break;
+      }
+      const last = items[items.length - 1];
+      cursor = [last.key, last.id];
+    }
+    expect(seen).toEqual(sorted.map(x => x.id));
+    expect(new Set(seen).size).toBe(ids.length);
+  });
+
+  it('orders the equal keys by id', () => {
+    const sorted = sortKeyedIds([
+      { id: 'b', key: 1 },
+      { id: 'a', key: 1 },
+      { id: 'c', key: 0 }
+    ]);
+    expect(sorted.map(x => x.id)).toEqual(['c', 'a', 'b']);
+  });
+
+  it('returns nothing after the last item', () => {
+    const sorted = sortKeyedIds([{ id: 'a', key: 1 }]);
+    expect(pageKeyedIds(sorted, 10, [1, 'a'])).toEqual([]);
+  });
+});
+
+describe('keyedIdsCache', () => {
+  const items: KeyedId[] = [{ id: 'a', key: 1 }];
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps the entries for `ttl`', () => {
+    const now = Date.now();
+    const spy = jest.spyOn(Date, 'now').mockReturnValue(now);
+    const cache = keyedIdsCache({ ttl: 1000, max: 10 });
+    cache.set('key', items);
+    expect(cache.get('key')).toBe(items);
+    spy.mockReturnValue(now + 1001);
+    expect(cache.get('key')).toBeUndefined();
+  });
+
+  it('drops the oldest entry over `max`', () => {
+    const cache = keyedIdsCache({ ttl: 1000, max: 2 });
+    cache.set('a', items);
+    cache.set('b', items);
+    cache.set('c', items);
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.get('b')).toBe(items);
+    expect(cache.get('c')).toBe(items);
+  });
+});
@@ -0,0 +1,62 @@
+import { EntityManager } from 'typeorm';
+import { getSearchQuery } from '../../srv/search';
+import {
+  highlight,
+  schemeToText,
+  stemText,
+  tokenize
+} from '../../srv/search/text';
+import { Scheme, SearchIn } from '../../src/interfaces';
+
+const scheme: Scheme = [
+  ['Кот пошёл гулять. ', 0],
+  ['Собаки лаяли.', 1]
+];
+
+const fakeManager = (type: string) =>
+  (({ connection: { options: { type } } } as unknown) as EntityManager);
+
+describe('search text', () => {
+  it('takes the text of the fragments by the author', () => {
+    expect(schemeToText(scheme)).toBe('Кот пошёл гулять. Собаки лаяли.');
+    expect(schemeToText(scheme, 'user')).toBe('Кот пошёл гулять. ');
+    expect(schemeToText(scheme, 'ai')).toBe('Собаки лаяли.');
+  });
+
+  it('splits the words in lower case', () => {
+    expect(tokenize('Кот — гулять!')).toEqual(['кот', 'гулять']);
+  });
+
+  it('gives the same stems to the word forms', () => {
+    expect(stemText('собаки')).toEqual(stemText('собака'));
+  });
+
+  it('marks the found words and escapes the html', () => {
+    const html = highlight('<b>Собаки</b> лаяли', stemText('собака'));
+    expect(html).toBe('&lt;b&gt;<mark>Собаки</mark>&lt;/b&gt; лаяли');
+    expect(highlight('Кот', stemText('собака'))).toBe('');
+  });
+});
+
+describe('getSearchQuery', () => {
+  it('puts the fixed columns into the postgres query', () => {
+    const search = getSearchQuery(fakeManager('postgres'), 'кот', 'user');
+    expect(search && search.query).toContain('ts_rank("user", q)');
+  });
+
+  it('never puts an unknown `searchIn` into the query', () => {
+    const searchIn = 'ai") OR 1=1 --' as SearchIn;
+    const search = getSearchQuery(fakeManager('postgres'), 'кот', searchIn);
+    expect(search && search.query).not.toContain('1=1');
+    expect(search && search.query).toContain('("user" || "ai")');
+  });
+
+  it('filters the fts5 columns in the match parameter', () => {
+    const search = getSearchQuery(fakeManager('sqlite'), 'кот', 'ai');
+    expect(search && search.parameters.searchMatch).toMatch(/^ai : "/);
+  });
+
+  it('has no query without words', () => {
+    expect(getSearchQuery(fakeManager('sqlite'), '!?')).toBeUndefined();
+  });
+});
@@ -0,0 +1,50 @@
+import { isGenerated, verifyScheme } from '../../srv/utils/verifyScheme';
+
+const replies = ['Привет, мир.', ' Как дела?', 'Хорошо'];
+
+describe('isGenerated', () => {
+  it('accepts a whole reply and a piece of one reply', () => {
+    expect(isGenerated('Привет, мир.', replies)).toBe(true);
+    expect(isGenerated('Привет', replies)).toBe(true);
+    expect(isGenerated('мир', replies)).toBe(true);
+  });
+
+  it('accepts whole replies one after another', () => {
+    expect(isGenerated('Привет, мир. Как дела?', replies)).toBe(true);
+    expect(isGenerated('Привет, мир.Как дела? Хорошо', replies)).toBe(true);
+  });
+
+  it('rejects the text glued from the pieces of the replies', () => {
+    expect(isGenerated('AI', ['AbC', 'xI'])).toBe(false);
+    expect(isGenerated('мир. Как', replies)).toBe(false);
+    expect(isGenerated('Привет, мир. Как', replies)).toBe(false);
+    expect(isGenerated('ПриветХорошо', replies)).toBe(false);
+  });
+
+  it('rejects the text without replies', () => {
+    expect(isGenerated('Привет', [])).toBe(false);
+  });
+});
+
+describe('verifyScheme', () => {
+  it('checks the AI fragments only', () => {
+    expect(
+      verifyScheme(
+        [
+          ['Любой текст ', 0],
+          ['Привет, мир.', 1]
+        ],
+        replies
+      )
+    ).toBe(true);
+    expect(
+      verifyScheme(
+        [
+          ['Привет', 0],
+          ['Пока', 1]
+        ],
+        replies
+      )
+    ).toBe(false);
+  });
+});